@@ -0,0 +1,217 @@
+import { chunk as chunker } from 'lodash'
+import {
+	AttributeValue,
+	BatchGetItemCommand,
+	BatchGetItemCommandInput,
+	DynamoDBClient
+} from '@aws-sdk/client-dynamodb'
+import {
+	BatchGetCommand,
+	BatchGetCommandInput,
+	BatchGetCommandOutput,
+	DynamoDBDocumentClient
+} from '@aws-sdk/lib-dynamodb'
+import {
+	BulkExecuteOptions,
+	BulkGetOptions,
+	BulkGetResult,
+	BulkGetTableOptions,
+	MarshallingMode
+} from './types'
+import { ExpressionContext } from './utils/expression'
+import { keyId } from './utils/index'
+import { marshallItem, unmarshallItem } from './utils/marshall'
+import { DEFAULT_BACKOFF_OPTIONS, backoffDelay, isThrottlingError, sleep } from './utils/backoff'
+import { validateKey, validateTableName } from './utils/validation'
+import { QueryError, RateLimitError, translateError } from './errors'
+import { retryPolicy, withRetry } from './retry'
+
+const MAX_KEYS = 100
+const MAX_RESPONSE_SIZE = 16 * 1024 * 1024
+
+export default class BulkGet {
+	private entries: { tableName: string; key: Record<string, unknown> }[]
+	private tables: Record<string, BulkGetTableOptions>
+	private size: number
+	private mode?: MarshallingMode
+
+	constructor(options: BulkGetOptions = {}) {
+		this.entries = []
+		this.tables = {}
+		this.mode = options.mode
+		this.size = options.estimatedItemSize
+			? Math.max(1, Math.min(MAX_KEYS, Math.floor(MAX_RESPONSE_SIZE / options.estimatedItemSize)))
+			: MAX_KEYS
+	}
+
+	/**
+	 * Queue keys to get from a table
+	 * @param tableName Table name
+	 * @param keys Key or keys
+	 * @param options Projection and read consistency for the table
+	 * @throws {ValidationError} If the table name or a key is invalid
+	 */
+	add(
+		tableName: string,
+		keys: Record<string, unknown> | Record<string, unknown>[],
+		options?: BulkGetTableOptions
+	) {
+		validateTableName(tableName)
+		const list = Array.isArray(keys) ? keys : [keys]
+		list.forEach((key) => validateKey(key))
+		this.entries.push(...list.map((key) => ({ tableName, key })))
+		if (options) {
+			this.tables[tableName] = { ...this.tables[tableName], ...options }
+		}
+	}
+
+	/**
+	 * BatchGetItem payloads for the unique queued keys, chunked to the key and response limits
+	 */
+	get query(): BatchGetCommandInput[] {
+		const unique = new Map<string, { tableName: string; key: Record<string, unknown> }>()
+		this.entries.forEach((entry) => unique.set(keyId(entry.tableName, entry.key), entry))
+		return chunker([...unique.values()], this.size).map((entries) => this.buildRequest(entries))
+	}
+
+	buildRequest(
+		entries: { tableName: string; key: Record<string, unknown> }[]
+	): BatchGetCommandInput {
+		const requestItems = {}
+		entries.forEach(({ tableName, key }) => {
+			if (!requestItems[tableName]) {
+				requestItems[tableName] = { Keys: [], ...this.tableRequest(tableName, key) }
+			}
+			requestItems[tableName].Keys.push(this.mode === 'lowLevel' ? marshallItem(key) : key)
+		})
+		return { RequestItems: requestItems }
+	}
+
+	/**
+	 * Send the queued gets, retrying unprocessed keys with exponential backoff.
+	 * With a retry policy, failed batches are retried by the policy instead.
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @param options Concurrency, backoff and retry options
+	 * @returns One result per queued key, in the order the keys were added
+	 * @throws {RateLimitError} If throttling does not clear within the retry budget
+	 * @throws {QueryError} If a batch fails, after which no further batches are sent
+	 */
+	async execute(
+		client: DynamoDBDocumentClient | DynamoDBClient,
+		options: BulkExecuteOptions = {}
+	): Promise<BulkGetResult[]> {
+		const { maxRetries } = { ...DEFAULT_BACKOFF_OPTIONS, ...options }
+		const wait = options.sleep || sleep
+		const policy = retryPolicy(options.retry)
+		const queue = this.query
+		const found = new Map<string, Record<string, unknown>>()
+		let throttled = 0
+		// set when a batch fails, so the other workers stop taking chunks
+		let stopped = false
+
+		const worker = async () => {
+			while (!stopped && queue.length) {
+				let requestItems = queue.shift().RequestItems
+				for (let attempt = 0; ; attempt++) {
+					let unprocessed = requestItems
+					try {
+						const input = { RequestItems: requestItems }
+						const result = await withRetry(
+							policy,
+							(abortSignal) => this.send(client, input, abortSignal),
+							{ operation: 'batchGet' }
+						)
+						Object.keys(result.Responses || {}).forEach((tableName) =>
+							result.Responses[tableName].forEach((response) => {
+								const item =
+									this.mode === 'lowLevel'
+										? unmarshallItem(response as Record<string, AttributeValue>)
+										: response
+								const keyAttrs = Object.keys(requestItems[tableName].Keys[0])
+								const key = keyAttrs.reduce((k, attr) => ({ ...k, [attr]: item[attr] }), {})
+								found.set(keyId(tableName, key), item)
+							})
+						)
+						unprocessed = result.UnprocessedKeys || {}
+					} catch (e) {
+						if (policy || !isThrottlingError(e)) {
+							stopped = true
+							throw translateError(
+								e,
+								{ operation: 'batchGet' },
+								(message, operation) =>
+									new QueryError(`Failed to get items in batch: ${message}`, operation)
+							)
+						}
+					}
+					const remaining = Object.values(unprocessed).reduce(
+						(total, request) => total + request.Keys.length,
+						0
+					)
+					if (!remaining) {
+						break
+					}
+					if (attempt >= maxRetries) {
+						throttled += remaining
+						break
+					}
+					requestItems = unprocessed
+					await wait(backoffDelay(attempt, options))
+					if (stopped) {
+						return
+					}
+				}
+			}
+		}
+
+		await Promise.all(Array.from({ length: Math.max(1, options.concurrency || 1) }, worker))
+		if (throttled) {
+			throw new RateLimitError(`${throttled} keys were still throttled after ${maxRetries} retries`)
+		}
+		return this.entries.map(({ tableName, key }) => ({
+			tableName,
+			key,
+			item: found.get(keyId(tableName, key)) || null
+		}))
+	}
+
+	/**
+	 * Send one batch, as BatchGetItemCommand in low-level mode
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @param input BatchGetItem input
+	 * @param abortSignal Signal aborting the request
+	 */
+	private async send(
+		client: DynamoDBDocumentClient | DynamoDBClient,
+		input: BatchGetCommandInput,
+		abortSignal?: AbortSignal
+	): Promise<BatchGetCommandOutput> {
+		if (this.mode === 'lowLevel') {
+			const command = new BatchGetItemCommand(input as BatchGetItemCommandInput)
+			const output = await (client as DynamoDBClient).send(command, { abortSignal })
+			return output as BatchGetCommandOutput
+		}
+		const command = new BatchGetCommand(input)
+		return (client as DynamoDBDocumentClient).send(command, { abortSignal })
+	}
+
+	/**
+	 * Build the projection and read consistency of a table's request
+	 * @param tableName Table name
+	 * @param key A key of the table, whose attributes are always projected
+	 */
+	private tableRequest(tableName: string, key: Record<string, unknown>) {
+		const options = this.tables[tableName] || {}
+		const request: Record<string, unknown> = {}
+		if (options.consistentRead !== undefined) {
+			request.ConsistentRead = options.consistentRead
+		}
+		if (options.projection?.length) {
+			const context = new ExpressionContext()
+			const attributes = [...new Set([...Object.keys(key), ...options.projection])]
+			request.ProjectionExpression = attributes.map((attr) => context.name(attr)).join(', ')
+			request.ExpressionAttributeNames = context.names
+		}
+		return request
+	}
+}
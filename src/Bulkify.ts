@@ -1,16 +1,113 @@
-import { chunk as chunker } from 'lodash'
+import { pick } from 'lodash'
+import {
+	BatchWriteItemCommand,
+	BatchWriteItemCommandInput,
+	DynamoDBClient
+} from '@aws-sdk/client-dynamodb'
+import {
+	BatchWriteCommand,
+	BatchWriteCommandInput,
+	BatchWriteCommandOutput,
+	DynamoDBDocumentClient
+} from '@aws-sdk/lib-dynamodb'
+import {
+	BulkExecuteOptions,
+	BulkifyOptions,
+	BulkWriteSummary,
+	DuplicatePolicy,
+	MarshallingMode
+} from './types'
+import { DEFAULT_BACKOFF_OPTIONS, backoffDelay, isThrottlingError, sleep } from './utils/backoff'
+import { MAX_ITEM_SIZE, itemSize } from './utils/size'
+import { keyId } from './utils/index'
+import { marshallItem } from './utils/marshall'
+import { retryPolicy, withRetry } from './retry'
+import { RateLimitError, ValidationError, translateError } from './errors'
+
+const MAX_BATCH_BYTES = 16 * 1024 * 1024
+
+interface BulkRecord {
+	index: string
+	record: any
+	bytes: number
+}
+
+/**
+ * Count the write requests of a RequestItems map
+ * @param requestItems RequestItems map
+ */
+const countRequests = (requestItems: Record<string, unknown[]> = {}): number =>
+	Object.values(requestItems).reduce((total, requests) => total + requests.length, 0)
 
 export default class Bulkify {
-	private records: any
+	private records: BulkRecord[]
 	private size: number
+	private maxBatchBytes: number
+	private keys: Record<string, string[]>
+	private duplicates: DuplicatePolicy
+	private mode?: MarshallingMode
 
-	constructor(size = 25) {
+	constructor(options: number | BulkifyOptions = {}) {
+		const {
+			size = 25,
+			maxBatchBytes = MAX_BATCH_BYTES,
+			keys = {},
+			duplicates = 'lastWriteWins',
+			mode
+		} = typeof options === 'number' ? ({ size: options } as BulkifyOptions) : options
 		this.records = []
 		this.size = size
+		this.maxBatchBytes = maxBatchBytes
+		this.keys = keys
+		this.duplicates = duplicates
+		this.mode = mode
 	}
 
+	/**
+	 * BatchWriteItem payloads for the queued writes, chunked by request count and
+	 * bytes, with duplicate keys in a chunk resolved by the duplicate policy
+	 * @throws {ValidationError} If a chunk holds duplicate keys and the policy is `error`
+	 */
 	get query() {
-		return this.records.length > 0 ? chunker(this.records, this.size).map(this.buildRequest) : []
+		const chunks: BulkRecord[][] = []
+		let current: BulkRecord[] = []
+		let bytes = 0
+		let positions = new Map<string, number>()
+		const next = () => {
+			chunks.push(current)
+			current = []
+			bytes = 0
+			positions = new Map()
+		}
+		for (const record of this.records) {
+			if (current.length >= this.size) {
+				next()
+			}
+			const id = this.recordId(record)
+			if (id !== undefined && positions.has(id)) {
+				if (this.duplicates === 'error') {
+					throw new ValidationError(`Duplicate key in batch for table ${record.index}`)
+				}
+				if (this.duplicates === 'lastWriteWins') {
+					const position = positions.get(id) as number
+					bytes += record.bytes - current[position].bytes
+					current[position] = record
+				}
+				continue
+			}
+			if (current.length && bytes + record.bytes > this.maxBatchBytes) {
+				next()
+			}
+			if (id !== undefined) {
+				positions.set(id, current.length)
+			}
+			current.push(record)
+			bytes += record.bytes
+		}
+		if (current.length) {
+			chunks.push(current)
+		}
+		return chunks.map(this.buildRequest)
 	}
 
 	buildRequest(records) {
@@ -27,20 +124,111 @@ export default class Bulkify {
 		}
 	}
 
+	/**
+	 * Queue items to put into a table
+	 * @param index Table name
+	 * @param data Item or items
+	 * @throws {ValidationError} If an item exceeds the 400 KB item size limit
+	 */
 	add(index, data) {
-		if (Array.isArray(data)) {
-			this.records.push(
-				...data.map((x) => ({
-					index,
-					record: this.bulkWrapItem(x)
-				}))
+		this.push(index, data, this.bulkWrapItem)
+	}
+
+	/**
+	 * Queue keys to delete from a table
+	 * @param index Table name
+	 * @param keys Key or keys
+	 */
+	delete(index, keys) {
+		this.push(index, keys, this.bulkWrapKey)
+	}
+
+	/**
+	 * Queue puts and deletes for a table
+	 * @param index Table name
+	 * @param writes Items to put and keys to delete
+	 */
+	write(index, writes: { put?: any[]; delete?: any[] }) {
+		if (writes.put) {
+			this.add(index, writes.put)
+		}
+		if (writes.delete) {
+			this.delete(index, writes.delete)
+		}
+	}
+
+	/**
+	 * Send the queued writes, re-queueing unprocessed items with exponential backoff.
+	 * With a retry policy, failed batches are retried by the policy instead, and batches
+	 * still throttled when it gives up, or rejected by its open circuit, count as throttled.
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @param options Concurrency, backoff and retry options
+	 * @returns Summary of the requests written, retried and failed
+	 * @throws {RateLimitError} If throttling does not clear within the retry budget
+	 */
+	async execute(
+		client: DynamoDBDocumentClient | DynamoDBClient,
+		options: BulkExecuteOptions = {}
+	): Promise<BulkWriteSummary> {
+		const { maxRetries } = { ...DEFAULT_BACKOFF_OPTIONS, ...options }
+		const wait = options.sleep || sleep
+		const policy = retryPolicy(options.retry)
+		const queue = [...this.query]
+		const summary: BulkWriteSummary = { written: 0, retried: 0, failed: 0, errors: [] }
+		let throttled = 0
+
+		const worker = async () => {
+			while (queue.length) {
+				let requestItems = queue.shift().RequestItems
+				for (let attempt = 0; ; attempt++) {
+					const pending = countRequests(requestItems)
+					let unprocessed = requestItems
+					try {
+						const input = { RequestItems: requestItems } as BatchWriteCommandInput
+						const result = await withRetry(
+							policy,
+							(abortSignal) => this.send(client, input, abortSignal),
+							{ operation: 'batchWrite' }
+						)
+						unprocessed = (result.UnprocessedItems || {}) as Record<string, any[]>
+						summary.written += pending - countRequests(unprocessed)
+					} catch (e) {
+						const error = translateError(e, { operation: 'batchWrite' })
+						if (policy && error instanceof RateLimitError) {
+							throttled += pending
+							break
+						}
+						if (policy || !isThrottlingError(e)) {
+							summary.failed += pending
+							summary.errors.push(error)
+							break
+						}
+					}
+					const remaining = countRequests(unprocessed)
+					if (!remaining) {
+						break
+					}
+					if (attempt >= maxRetries) {
+						throttled += remaining
+						break
+					}
+					summary.retried += remaining
+					requestItems = unprocessed
+					await wait(backoffDelay(attempt, options))
+				}
+			}
+		}
+
+		await Promise.all(Array.from({ length: Math.max(1, options.concurrency || 1) }, worker))
+		if (throttled) {
+			throw new RateLimitError(
+				`${throttled} write requests were still throttled after ${
+					policy ? 'the' : maxRetries
+				} retries ` +
+					`(written: ${summary.written}, retried: ${summary.retried}, failed: ${summary.failed})`
 			)
-		} else {
-			this.records.push({
-				index,
-				record: this.bulkWrapItem(data)
-			})
 		}
+		return summary
 	}
 
 	bulkWrapItem(Item) {
@@ -50,4 +238,60 @@ export default class Bulkify {
 			}
 		}
 	}
+
+	bulkWrapKey(Key) {
+		return {
+			DeleteRequest: {
+				Key
+			}
+		}
+	}
+
+	/**
+	 * Send one batch, as BatchWriteItemCommand in low-level mode
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @param input BatchWriteItem input
+	 * @param abortSignal Signal aborting the request
+	 */
+	private async send(
+		client: DynamoDBDocumentClient | DynamoDBClient,
+		input: BatchWriteCommandInput,
+		abortSignal?: AbortSignal
+	): Promise<BatchWriteCommandOutput> {
+		if (this.mode === 'lowLevel') {
+			const command = new BatchWriteItemCommand(input as BatchWriteItemCommandInput)
+			const output = await (client as DynamoDBClient).send(command, { abortSignal })
+			return output as BatchWriteCommandOutput
+		}
+		const command = new BatchWriteCommand(input)
+		return (client as DynamoDBDocumentClient).send(command, { abortSignal })
+	}
+
+	/**
+	 * Identify the item a write request targets. Puts can only be identified
+	 * when the key attributes of their table are configured.
+	 * @param record Queued write
+	 */
+	private recordId({ index, record }: BulkRecord): string | undefined {
+		const keys = this.keys[index]
+		if (record.DeleteRequest) {
+			const key = record.DeleteRequest.Key
+			return keyId(index, keys ? pick(key, keys) : key)
+		}
+		return keys ? keyId(index, pick(record.PutRequest.Item, keys)) : undefined
+	}
+
+	private push(index, data, wrap) {
+		const items = Array.isArray(data) ? data : [data]
+		const records = items.map((x) => {
+			const bytes = itemSize(x)
+			if (bytes > MAX_ITEM_SIZE) {
+				throw new ValidationError(
+					`Item of ${bytes} bytes for table ${index} exceeds the ${MAX_ITEM_SIZE} byte limit`
+				)
+			}
+			return { index, record: wrap(this.mode === 'lowLevel' ? marshallItem(x) : x), bytes }
+		})
+		this.records.push(...records)
+	}
 }
@@ -0,0 +1,157 @@
+import {
+	AttributeValue,
+	DynamoDBClient,
+	TransactGetItemsCommand,
+	TransactGetItemsCommandInput
+} from '@aws-sdk/client-dynamodb'
+import {
+	DynamoDBDocumentClient,
+	TransactGetCommand,
+	TransactGetCommandInput,
+	TransactGetCommandOutput
+} from '@aws-sdk/lib-dynamodb'
+import { MarshallingMode, TransactGetOptions, TransactGetRequest } from './types'
+import { ExpressionContext } from './utils/expression'
+import { marshallInput, unmarshallItem } from './utils/marshall'
+import { validateKey, validateNonEmptyString, validateTableName } from './utils/validation'
+import { DynamoDbError, TransactionCanceledError, ValidationError, translateError } from './errors'
+import { RetryPolicy, retryPolicy, withRetry } from './retry'
+
+const MAX_ITEMS = 100
+
+type TransactGetItem = NonNullable<TransactGetCommandInput['TransactItems']>[number]
+
+export default class TransactGet<T extends Record<string, unknown> = {}> {
+	private slots: {
+		name: string
+		tableName: string
+		key: Record<string, unknown>
+		request: TransactGetItem
+	}[]
+	private mode?: MarshallingMode
+	private retry?: RetryPolicy
+
+	constructor(options: TransactGetOptions = {}) {
+		this.slots = []
+		this.mode = options.mode
+		this.retry = retryPolicy(options.retry)
+	}
+
+	/**
+	 * TransactGetItems input for the queued gets
+	 * @throws {ValidationError} If there are no gets
+	 */
+	get input(): TransactGetCommandInput {
+		if (!this.slots.length) {
+			throw new ValidationError('Transaction has no gets')
+		}
+		return { TransactItems: this.slots.map((x) => x.request) }
+	}
+
+	/**
+	 * Queue a get whose item is returned under `name`
+	 * @param name Result slot
+	 * @param request Table, key and optional projection
+	 * @returns The builder, typed with the new slot
+	 * @throws {ValidationError} If the slot is taken, the request is invalid or 100 gets are queued
+	 */
+	get<K extends string, I extends Record<string, unknown> = Record<string, unknown>>(
+		name: K,
+		request: TransactGetRequest
+	): TransactGet<T & Record<K, I | null>> {
+		validateNonEmptyString(name, 'Slot name')
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		if (this.slots.some((x) => x.name === name)) {
+			throw new ValidationError(`Slot ${name} is already used`)
+		}
+		if (this.slots.length >= MAX_ITEMS) {
+			throw new ValidationError(`Transaction cannot have more than ${MAX_ITEMS} gets`)
+		}
+		const Get: Record<string, unknown> = { TableName: request.tableName, Key: request.key }
+		if (request.projection?.length) {
+			const context = new ExpressionContext()
+			Get.ProjectionExpression = request.projection.map((attr) => context.name(attr)).join(', ')
+			Get.ExpressionAttributeNames = context.names
+		}
+		this.slots.push({
+			name,
+			tableName: request.tableName,
+			key: request.key,
+			request: { Get: marshallInput(Get, this.mode) } as TransactGetItem
+		})
+		return this as unknown as TransactGet<T & Record<K, I | null>>
+	}
+
+	/**
+	 * Map the positional responses of a TransactGetItems call back to their slots
+	 * @param output TransactGetItems output
+	 * @returns Items by slot, null for misses
+	 */
+	results(output: Pick<TransactGetCommandOutput, 'Responses'>): T {
+		const responses = output.Responses || []
+		return this.slots.reduce((results, { name }, i) => {
+			const item = responses[i]?.Item
+			return {
+				...results,
+				[name]: item
+					? this.mode === 'lowLevel'
+						? unmarshallItem(item as Record<string, AttributeValue>)
+						: item
+					: null
+			}
+		}, {} as T)
+	}
+
+	/**
+	 * Pair the positional cancellation reasons of a failed TransactGetItems call
+	 * with the queued gets
+	 * @param error Error thrown by the client
+	 * @returns {TransactionCanceledError} For canceled transactions, otherwise the translated error
+	 */
+	failure(error: unknown): DynamoDbError {
+		const e = error as Record<string, any>
+		return translateError(error, { operation: 'transactGet' }, (message, operation) => {
+			if (e?.name !== 'TransactionCanceledException') {
+				return new DynamoDbError(message, operation)
+			}
+			const reasons: Record<string, any>[] = e.CancellationReasons || []
+			return new TransactionCanceledError(
+				this.slots.map(({ tableName, key }, index) => ({
+					index,
+					type: 'get' as const,
+					tableName,
+					key,
+					code: reasons[index]?.Code || 'None',
+					...(reasons[index]?.Message && { message: reasons[index].Message })
+				})),
+				operation
+			)
+		})
+	}
+
+	/**
+	 * Send the queued gets as one transaction
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @returns Items by slot, null for misses
+	 * @throws {TransactionCanceledError} If DynamoDB cancels the transaction, after any retries
+	 */
+	async execute(client: DynamoDBDocumentClient | DynamoDBClient): Promise<T> {
+		const input = this.input
+		const send = async (abortSignal?: AbortSignal): Promise<TransactGetCommandOutput> => {
+			try {
+				if (this.mode === 'lowLevel') {
+					const command = new TransactGetItemsCommand(input as TransactGetItemsCommandInput)
+					const output = await (client as DynamoDBClient).send(command, { abortSignal })
+					return output as TransactGetCommandOutput
+				}
+				const command = new TransactGetCommand(input)
+				return await (client as DynamoDBDocumentClient).send(command, { abortSignal })
+			} catch (e) {
+				throw this.failure(e)
+			}
+		}
+		// failures are translated first, so cancellations are retried by their reasons
+		return this.results(await withRetry(this.retry, send, { operation: 'transactGet' }))
+	}
+}
@@ -0,0 +1,292 @@
+import { randomUUID } from 'crypto'
+import { isEqual, pick } from 'lodash'
+import {
+	DynamoDBClient,
+	TransactWriteItemsCommand,
+	TransactWriteItemsCommandInput
+} from '@aws-sdk/client-dynamodb'
+import {
+	DynamoDBDocumentClient,
+	TransactWriteCommand,
+	TransactWriteCommandInput
+} from '@aws-sdk/lib-dynamodb'
+import {
+	CanceledOperation,
+	ConditionCheckRequest,
+	DeleteItemRequest,
+	MarshallingMode,
+	PutItemRequest,
+	TransactWriteOperationType,
+	TransactWriteOptions,
+	UpdateItemRequest
+} from './types'
+import {
+	buildConditionCheckInput,
+	buildDeleteInput,
+	buildPutInput,
+	buildUpdateInput
+} from './utils/index'
+import { unmarshallItem } from './utils/marshall'
+import { RetryPolicy, retryPolicy, withRetry } from './retry'
+import { itemSize } from './utils/size'
+import {
+	validateKey,
+	validateNonEmptyString,
+	validateObject,
+	validateTableName
+} from './utils/validation'
+import { DynamoDbError, TransactionCanceledError, ValidationError, translateError } from './errors'
+
+const MAX_OPERATIONS = 100
+const MAX_TRANSACTION_SIZE = 4 * 1024 * 1024
+const MAX_TOKEN_LENGTH = 36
+
+type TransactWriteItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number]
+
+interface TransactOperation {
+	type: TransactWriteOperationType
+	tableName: string
+	// key of updates, deletes and condition checks
+	key?: Record<string, unknown>
+	// item of puts
+	item?: Record<string, unknown>
+	bytes: number
+	request: TransactWriteItem
+}
+
+export default class TransactWrite {
+	private operations: TransactOperation[]
+	private keys: Record<string, string[]>
+	private clientRequestToken?: string
+	private mode?: MarshallingMode
+	private retry?: RetryPolicy
+
+	/**
+	 * @throws {ValidationError} If the client request token is empty or longer than 36 characters
+	 */
+	constructor(options: TransactWriteOptions = {}) {
+		if (options.clientRequestToken !== undefined) {
+			validateNonEmptyString(options.clientRequestToken, 'Client request token')
+			if (options.clientRequestToken.length > MAX_TOKEN_LENGTH) {
+				throw new ValidationError(
+					`Client request token cannot be longer than ${MAX_TOKEN_LENGTH} characters`
+				)
+			}
+		}
+		this.operations = []
+		this.keys = options.keys || {}
+		this.clientRequestToken = options.clientRequestToken
+		this.mode = options.mode
+		this.retry = retryPolicy(options.retry)
+	}
+
+	/**
+	 * TransactWriteItems input for the queued operations
+	 * @throws {ValidationError} If there are no operations or two operations target the same item
+	 */
+	get input(): TransactWriteCommandInput {
+		if (!this.operations.length) {
+			throw new ValidationError('Transaction has no operations')
+		}
+		// key attributes learned from later operations can reveal puts to the same item
+		this.operations.forEach((operation, i) =>
+			this.assertUnique(operation, this.operations.slice(0, i))
+		)
+		return {
+			TransactItems: this.operations.map((x) => x.request),
+			...(this.clientRequestToken && { ClientRequestToken: this.clientRequestToken })
+		}
+	}
+
+	/**
+	 * Queue a put
+	 * @param request Same request as `buildPutInput`
+	 * @throws {ValidationError} If a transaction limit is exceeded or the item is already targeted
+	 */
+	put(request: PutItemRequest) {
+		validateTableName(request.tableName)
+		validateObject(request.params, 'Item')
+		const Put = buildPutInput({ ...request, mode: this.mode })
+		this.push({
+			type: 'put',
+			tableName: request.tableName,
+			item: request.params,
+			bytes: itemSize(request.params) + itemSize(Put.ExpressionAttributeValues || {}),
+			request: { Put } as TransactWriteItem
+		})
+	}
+
+	/**
+	 * Queue an update
+	 * @param request Same request as `buildUpdateInput`
+	 * @throws {ValidationError} If a transaction limit is exceeded or the item is already targeted
+	 */
+	update(request: UpdateItemRequest) {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		// transactions don't return values
+		const { ReturnValues, ...Update } = buildUpdateInput({ ...request, mode: this.mode })
+		this.push({
+			type: 'update',
+			tableName: request.tableName,
+			key: request.key,
+			bytes: itemSize(request.key) + itemSize(Update.ExpressionAttributeValues || {}),
+			request: { Update } as TransactWriteItem
+		})
+	}
+
+	/**
+	 * Queue a delete
+	 * @param request Same request as `buildDeleteInput`
+	 * @throws {ValidationError} If a transaction limit is exceeded or the item is already targeted
+	 */
+	delete(request: DeleteItemRequest) {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const Delete = buildDeleteInput({ ...request, mode: this.mode })
+		this.push({
+			type: 'delete',
+			tableName: request.tableName,
+			key: request.key,
+			bytes: itemSize(request.key) + itemSize(Delete.ExpressionAttributeValues || {}),
+			request: { Delete } as TransactWriteItem
+		})
+	}
+
+	/**
+	 * Queue a condition the item must meet for the transaction to succeed
+	 * @param request Table, key and condition
+	 * @throws {ValidationError} If a transaction limit is exceeded or the item is already targeted
+	 */
+	conditionCheck(request: ConditionCheckRequest) {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const ConditionCheck = buildConditionCheckInput({ ...request, mode: this.mode })
+		this.push({
+			type: 'conditionCheck',
+			tableName: request.tableName,
+			key: request.key,
+			bytes: itemSize(request.key) + itemSize(ConditionCheck.ExpressionAttributeValues || {}),
+			request: { ConditionCheck } as TransactWriteItem
+		})
+	}
+
+	/**
+	 * Pair the positional cancellation reasons of a failed TransactWriteItems call
+	 * with the queued operations
+	 * @param error Error thrown by the client
+	 * @returns {TransactionCanceledError} For canceled transactions, otherwise the translated error
+	 */
+	failure(error: unknown): DynamoDbError {
+		const e = error as Record<string, any>
+		return translateError(error, { operation: 'transactWrite' }, (message, operation) => {
+			if (e?.name !== 'TransactionCanceledException') {
+				return new DynamoDbError(message, operation)
+			}
+			const reasons: Record<string, any>[] = e.CancellationReasons || []
+			return new TransactionCanceledError(
+				this.operations.map((queued, i) => this.canceled(queued, i, reasons[i])),
+				operation
+			)
+		})
+	}
+
+	/**
+	 * Send the queued operations as one transaction
+	 * @param client DocumentClient, or DynamoDBClient in low-level mode
+	 * @throws {TransactionCanceledError} If DynamoDB cancels the transaction, after any retries
+	 * @throws {ValidationError} If there are no operations or two operations target the same item
+	 */
+	async execute(client: DynamoDBDocumentClient | DynamoDBClient): Promise<void> {
+		// retried attempts share a token, so a transaction that timed out is not applied twice
+		const input = {
+			...this.input,
+			...(this.retry && !this.clientRequestToken && { ClientRequestToken: randomUUID() })
+		}
+		const send = async (abortSignal?: AbortSignal) => {
+			try {
+				if (this.mode === 'lowLevel') {
+					const command = new TransactWriteItemsCommand(input as TransactWriteItemsCommandInput)
+					await (client as DynamoDBClient).send(command, { abortSignal })
+				} else {
+					const command = new TransactWriteCommand(input)
+					await (client as DynamoDBDocumentClient).send(command, { abortSignal })
+				}
+			} catch (e) {
+				throw this.failure(e)
+			}
+		}
+		// failures are translated first, so cancellations are retried by their reasons
+		await withRetry(this.retry, send, { operation: 'transactWrite' })
+	}
+
+	/**
+	 * Key attribute names of a table: configured, taken from the given key,
+	 * or learned from a keyed operation
+	 * @param tableName Table name
+	 * @param key Key of one of the operations being compared
+	 */
+	private keyAttributes(tableName: string, key?: Record<string, unknown>): string[] | undefined {
+		const keyed = key || this.operations.find((x) => x.tableName === tableName && x.key)?.key
+		return this.keys[tableName] || (keyed && Object.keys(keyed))
+	}
+
+	/**
+	 * Throw if an operation targets the same item as one of the others
+	 * @param operation Operation to check
+	 * @param others Operations queued before it
+	 */
+	private assertUnique(operation: TransactOperation, others: TransactOperation[]) {
+		others
+			.filter((x) => x.tableName === operation.tableName)
+			.forEach((other) => {
+				const keyAttrs = this.keyAttributes(operation.tableName, operation.key || other.key)
+				if (!keyAttrs) {
+					return
+				}
+				const target = pick(operation.key || operation.item, keyAttrs)
+				if (isEqual(target, pick(other.key || other.item, keyAttrs))) {
+					throw new ValidationError(
+						`Transaction has more than one operation on the same item in table ${operation.tableName}`
+					)
+				}
+			})
+	}
+
+	/**
+	 * Cancellation reason of one operation
+	 * @param operation Queued operation
+	 * @param index Position of the operation
+	 * @param reason Reason at the same position of the SDK error
+	 */
+	private canceled(
+		operation: TransactOperation,
+		index: number,
+		reason: Record<string, any> = {}
+	): CanceledOperation {
+		const keyAttrs = this.keyAttributes(operation.tableName, operation.key)
+		const key = operation.key || (keyAttrs && pick(operation.item, keyAttrs))
+		return {
+			index,
+			type: operation.type,
+			tableName: operation.tableName,
+			...(key && { key }),
+			code: reason.Code || 'None',
+			...(reason.Message && { message: reason.Message }),
+			// exceptions aren't unmarshalled, even by the DocumentClient
+			...(reason.Item && { item: unmarshallItem(reason.Item) })
+		}
+	}
+
+	private push(operation: TransactOperation) {
+		if (this.operations.length >= MAX_OPERATIONS) {
+			throw new ValidationError(`Transaction cannot have more than ${MAX_OPERATIONS} operations`)
+		}
+		const bytes = this.operations.reduce((total, x) => total + x.bytes, operation.bytes)
+		if (bytes > MAX_TRANSACTION_SIZE) {
+			throw new ValidationError(`Transaction cannot be larger than ${MAX_TRANSACTION_SIZE} bytes`)
+		}
+		this.assertUnique(operation, this.operations)
+		this.operations.push(operation)
+	}
+}
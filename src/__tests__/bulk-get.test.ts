@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient, ProvisionedThroughputExceededException } from '@aws-sdk/client-dynamodb'
+import { BatchGetCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb'
+import BulkGet from '../BulkGet'
+import { QueryError, RateLimitError, ValidationError } from '../errors'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+const noWait = { sleep: async () => undefined }
+
+describe('BulkGet', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	it('should dedupe keys regardless of attribute order', () => {
+		const bulk = new BulkGet()
+		bulk.add('orders', [
+			{ pk: 'a', sk: '1' },
+			{ sk: '1', pk: 'a' }
+		])
+		bulk.add('users', { id: '1' })
+
+		expect(bulk.query).toEqual([
+			{
+				RequestItems: {
+					orders: { Keys: [{ pk: 'a', sk: '1' }] },
+					users: { Keys: [{ id: '1' }] }
+				}
+			}
+		])
+	})
+
+	it('should chunk keys to 100 per request', () => {
+		const bulk = new BulkGet()
+		bulk.add(
+			'users',
+			Array.from({ length: 150 }, (_, i) => ({ id: `${i}` }))
+		)
+
+		expect(bulk.query.map((x) => x.RequestItems.users.Keys.length)).toEqual([100, 50])
+	})
+
+	it('should chunk keys to the response size limit', () => {
+		const bulk = new BulkGet({ estimatedItemSize: 400 * 1024 })
+		bulk.add(
+			'users',
+			Array.from({ length: 50 }, (_, i) => ({ id: `${i}` }))
+		)
+
+		expect(bulk.query.map((x) => x.RequestItems.users.Keys.length)).toEqual([40, 10])
+	})
+
+	it('should add per-table projections and consistent reads', () => {
+		const bulk = new BulkGet()
+		bulk.add('users', { id: '1' }, { projection: ['name', 'status'], consistentRead: true })
+
+		expect(bulk.query[0].RequestItems.users).toEqual({
+			Keys: [{ id: '1' }],
+			ConsistentRead: true,
+			ProjectionExpression: '#id, #name, #status',
+			ExpressionAttributeNames: { '#id': 'id', '#name': 'name', '#status': 'status' }
+		})
+	})
+
+	it('should reject invalid keys', () => {
+		expect(() => new BulkGet().add('users', {})).toThrow(ValidationError)
+	})
+
+	describe('execute', () => {
+		it('should return results in input order with explicit misses', async () => {
+			ddbMock.on(BatchGetCommand).resolves({
+				Responses: {
+					users: [{ id: '2', name: 'Jane' }],
+					orders: [{ pk: 'a', sk: '1', total: 5 }]
+				}
+			})
+			const bulk = new BulkGet()
+			bulk.add('users', [{ id: '1' }, { id: '2' }])
+			bulk.add('orders', { sk: '1', pk: 'a' })
+			bulk.add('users', { id: '2' })
+
+			const results = await bulk.execute(client, noWait)
+
+			expect(results).toEqual([
+				{ tableName: 'users', key: { id: '1' }, item: null },
+				{ tableName: 'users', key: { id: '2' }, item: { id: '2', name: 'Jane' } },
+				{ tableName: 'orders', key: { sk: '1', pk: 'a' }, item: { pk: 'a', sk: '1', total: 5 } },
+				{ tableName: 'users', key: { id: '2' }, item: { id: '2', name: 'Jane' } }
+			])
+		})
+
+		it('should retry unprocessed keys', async () => {
+			ddbMock
+				.on(BatchGetCommand)
+				.resolvesOnce({
+					Responses: { users: [{ id: '1' }] },
+					UnprocessedKeys: { users: { Keys: [{ id: '2' }] } }
+				})
+				.resolvesOnce({ Responses: { users: [{ id: '2' }] } })
+			const bulk = new BulkGet()
+			bulk.add('users', [{ id: '1' }, { id: '2' }])
+
+			const results = await bulk.execute(client, noWait)
+
+			expect(results.map((x) => x.item)).toEqual([{ id: '1' }, { id: '2' }])
+			expect(ddbMock.commandCalls(BatchGetCommand)[1].args[0].input.RequestItems).toEqual({
+				users: { Keys: [{ id: '2' }] }
+			})
+		})
+
+		it('should throw RateLimitError when throttling does not clear', async () => {
+			ddbMock
+				.on(BatchGetCommand)
+				.rejects(new ProvisionedThroughputExceededException({ message: 'slow', $metadata: {} }))
+			const bulk = new BulkGet()
+			bulk.add('users', { id: '1' })
+
+			await expect(bulk.execute(client, { maxRetries: 1, ...noWait })).rejects.toThrow(
+				RateLimitError
+			)
+		})
+
+		it('should stop sending batches once one fails', async () => {
+			let calls = 0
+			ddbMock.on(BatchGetCommand).callsFake(async () => {
+				if (calls++ === 0) {
+					throw Object.assign(new Error('denied'), { name: 'ValidationException' })
+				}
+				await new Promise((resolve) => setTimeout(resolve, 5))
+				return {}
+			})
+			// one key per batch
+			const bulk = new BulkGet({ estimatedItemSize: 16 * 1024 * 1024 })
+			bulk.add('users', [{ id: '1' }, { id: '2' }, { id: '3' }])
+
+			await expect(bulk.execute(client, { concurrency: 2, ...noWait })).rejects.toThrow(
+				ValidationError
+			)
+			await new Promise((resolve) => setTimeout(resolve, 10))
+			expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(2)
+		})
+
+		it('should translate failed batches', async () => {
+			ddbMock.on(BatchGetCommand).rejects(new Error('socket hang up'))
+			const bulk = new BulkGet()
+			bulk.add('users', { id: '1' })
+
+			const error = await bulk.execute(client, noWait).catch((e) => e)
+			expect(error).toBeInstanceOf(QueryError)
+			expect(error.cause).toBeInstanceOf(Error)
+		})
+	})
+})
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient, ProvisionedThroughputExceededException } from '@aws-sdk/client-dynamodb'
+import { BatchWriteCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb'
+import Bulkify from '../Bulkify'
+import { DynamoDbError, RateLimitError, ValidationError } from '../errors'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+const noWait = { sleep: async () => undefined }
+
+describe('Bulkify', () => {
+	it('should wrap added items in put requests', () => {
+		const bulk = new Bulkify()
+		bulk.add('users', [{ id: '1' }, { id: '2' }])
+
+		expect(bulk.query).toEqual([
+			{
+				RequestItems: {
+					users: [{ PutRequest: { Item: { id: '1' } } }, { PutRequest: { Item: { id: '2' } } }]
+				}
+			}
+		])
+	})
+
+	it('should wrap deleted keys in delete requests', () => {
+		const bulk = new Bulkify()
+		bulk.delete('users', { id: '1' })
+
+		expect(bulk.query).toEqual([
+			{ RequestItems: { users: [{ DeleteRequest: { Key: { id: '1' } } }] } }
+		])
+	})
+
+	it('should queue mixed puts and deletes per table', () => {
+		const bulk = new Bulkify()
+		bulk.write('users', { put: [{ id: '1' }], delete: [{ id: '2' }] })
+		bulk.delete('orders', [{ id: 'a' }])
+
+		expect(bulk.query).toEqual([
+			{
+				RequestItems: {
+					users: [{ PutRequest: { Item: { id: '1' } } }, { DeleteRequest: { Key: { id: '2' } } }],
+					orders: [{ DeleteRequest: { Key: { id: 'a' } } }]
+				}
+			}
+		])
+	})
+
+	it('should chunk requests to 25 across tables', () => {
+		const bulk = new Bulkify()
+		bulk.add(
+			'users',
+			Array.from({ length: 20 }, (_, i) => ({ id: `${i}` }))
+		)
+		bulk.delete(
+			'orders',
+			Array.from({ length: 10 }, (_, i) => ({ id: `${i}` }))
+		)
+
+		const [first, second] = bulk.query
+		expect(bulk.query).toHaveLength(2)
+		expect(first.RequestItems.users).toHaveLength(20)
+		expect(first.RequestItems.orders).toHaveLength(5)
+		expect(second.RequestItems.users).toBeUndefined()
+		expect(second.RequestItems.orders).toHaveLength(5)
+	})
+
+	it('should split chunks by bytes as well as count', () => {
+		const bulk = new Bulkify({ maxBatchBytes: 250 * 1024 })
+		const data = 'x'.repeat(100 * 1024)
+		bulk.add(
+			'users',
+			Array.from({ length: 5 }, (_, i) => ({ id: `${i}`, data }))
+		)
+
+		expect(bulk.query.map((x) => x.RequestItems.users.length)).toEqual([2, 2, 1])
+	})
+
+	it('should reject items over 400 KB', () => {
+		const bulk = new Bulkify()
+
+		expect(() => bulk.add('users', { id: '1', data: 'x'.repeat(400 * 1024) })).toThrow(
+			ValidationError
+		)
+	})
+
+	describe('duplicate keys', () => {
+		const queue = (bulk: Bulkify) => {
+			bulk.add('users', { id: '1', name: 'first' })
+			bulk.add('users', { id: '1', name: 'second' })
+			bulk.delete('users', { id: '2' })
+			bulk.delete('users', { id: '2' })
+		}
+
+		it('should keep the last write by default', () => {
+			const bulk = new Bulkify({ keys: { users: ['id'] } })
+			queue(bulk)
+
+			expect(bulk.query).toEqual([
+				{
+					RequestItems: {
+						users: [
+							{ PutRequest: { Item: { id: '1', name: 'second' } } },
+							{ DeleteRequest: { Key: { id: '2' } } }
+						]
+					}
+				}
+			])
+		})
+
+		it('should keep the first write', () => {
+			const bulk = new Bulkify({ keys: { users: ['id'] }, duplicates: 'firstWins' })
+			queue(bulk)
+
+			expect(bulk.query[0].RequestItems.users).toEqual([
+				{ PutRequest: { Item: { id: '1', name: 'first' } } },
+				{ DeleteRequest: { Key: { id: '2' } } }
+			])
+		})
+
+		it('should throw on duplicates', () => {
+			const bulk = new Bulkify({ keys: { users: ['id'] }, duplicates: 'error' })
+			queue(bulk)
+
+			expect(() => bulk.query).toThrow(ValidationError)
+		})
+
+		it('should match puts and deletes of the same key', () => {
+			const bulk = new Bulkify({ keys: { users: ['id'] } })
+			bulk.add('users', { id: '1', name: 'first' })
+			bulk.delete('users', { id: '1' })
+
+			expect(bulk.query[0].RequestItems.users).toEqual([{ DeleteRequest: { Key: { id: '1' } } }])
+		})
+
+		it('should only dedupe within a chunk', () => {
+			const bulk = new Bulkify({ size: 2, keys: { users: ['id'] }, duplicates: 'error' })
+			bulk.add('users', [{ id: '1' }, { id: '2' }, { id: '1' }])
+
+			expect(bulk.query).toHaveLength(2)
+		})
+	})
+
+	describe('execute', () => {
+		beforeEach(() => {
+			ddbMock.reset()
+		})
+
+		it('should send every chunk and summarize the writes', async () => {
+			ddbMock.on(BatchWriteCommand).resolves({})
+			const bulk = new Bulkify()
+			bulk.add(
+				'users',
+				Array.from({ length: 30 }, (_, i) => ({ id: `${i}` }))
+			)
+
+			const summary = await bulk.execute(client, { concurrency: 2, ...noWait })
+
+			expect(summary).toEqual({ written: 30, retried: 0, failed: 0, errors: [] })
+			expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(2)
+		})
+
+		it('should re-queue unprocessed items with backoff', async () => {
+			const unprocessed = { users: [{ PutRequest: { Item: { id: '2' } } }] }
+			ddbMock.on(BatchWriteCommand).resolvesOnce({ UnprocessedItems: unprocessed }).resolvesOnce({})
+			const delays: number[] = []
+			const bulk = new Bulkify()
+			bulk.add('users', [{ id: '1' }, { id: '2' }])
+
+			const summary = await bulk.execute(client, {
+				baseDelay: 100,
+				random: () => 0.5,
+				sleep: async (ms) => {
+					delays.push(ms)
+				}
+			})
+
+			expect(summary).toEqual({ written: 2, retried: 1, failed: 0, errors: [] })
+			expect(ddbMock.commandCalls(BatchWriteCommand)[1].args[0].input.RequestItems).toEqual(
+				unprocessed
+			)
+			expect(delays).toEqual([50])
+		})
+
+		it('should count batches failing with other errors as failed', async () => {
+			const error = new Error('boom')
+			ddbMock.on(BatchWriteCommand).rejects(error)
+			const bulk = new Bulkify()
+			bulk.delete('users', [{ id: '1' }, { id: '2' }])
+
+			const summary = await bulk.execute(client, noWait)
+
+			expect(summary).toMatchObject({ written: 0, retried: 0, failed: 2 })
+			expect(summary.errors).toHaveLength(1)
+			expect(summary.errors[0]).toBeInstanceOf(DynamoDbError)
+			expect(summary.errors[0]).toMatchObject({ operation: 'batchWrite', cause: error })
+		})
+
+		it('should throw RateLimitError when throttling does not clear', async () => {
+			ddbMock
+				.on(BatchWriteCommand)
+				.rejects(
+					new ProvisionedThroughputExceededException({ message: 'slow down', $metadata: {} })
+				)
+			const bulk = new Bulkify()
+			bulk.add('users', { id: '1' })
+
+			await expect(bulk.execute(client, { maxRetries: 2, ...noWait })).rejects.toThrow(
+				RateLimitError
+			)
+			expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(3)
+		})
+
+		it('should throw RateLimitError when throttling outlasts the retry policy', async () => {
+			ddbMock
+				.on(BatchWriteCommand)
+				.rejects(
+					new ProvisionedThroughputExceededException({ message: 'slow down', $metadata: {} })
+				)
+			const bulk = new Bulkify()
+			bulk.add('users', [{ id: '1' }, { id: '2' }])
+
+			await expect(
+				bulk.execute(client, { retry: { maxRetries: 2, circuitBreaker: false, ...noWait } })
+			).rejects.toThrow('2 write requests were still throttled')
+			expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(3)
+		})
+	})
+})
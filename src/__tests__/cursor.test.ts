@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals'
+import { decodeCursor, encodeCursor } from '../utils/cursor'
+import { buildQueryInput, buildScanInput } from '../utils'
+import { ValidationError } from '../errors'
+
+const key = { pk: { S: 'USER#1' }, sk: { S: 'ORDER#2024-01-01' } }
+const clock = () => 1700000000000
+
+describe('Cursor', () => {
+	it('should round trip a key through a URL-safe cursor', () => {
+		const cursor = encodeCursor(key)
+
+		expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+		expect(decodeCursor(cursor)).toEqual(key)
+	})
+
+	it('should verify a signed cursor', () => {
+		const cursor = encodeCursor(key, { secret: 'shh' })
+
+		expect(cursor.split('.')).toHaveLength(2)
+		expect(decodeCursor(cursor, { secret: 'shh' })).toEqual(key)
+	})
+
+	it('should reject a tampered cursor', () => {
+		const cursor = encodeCursor(key, { secret: 'shh' })
+		const [, signature] = cursor.split('.')
+		const forged = encodeCursor({ ...key, pk: { S: 'USER#2' } })
+
+		expect(() => decodeCursor(`${forged}.${signature}`, { secret: 'shh' })).toThrow(
+			'Cursor signature is invalid'
+		)
+	})
+
+	it('should reject an unsigned cursor when a secret is required', () => {
+		expect(() => decodeCursor(encodeCursor(key), { secret: 'shh' })).toThrow(ValidationError)
+	})
+
+	it('should reject a cursor used outside its scope', () => {
+		const cursor = encodeCursor(key, { secret: 'shh', scope: 'orders:USER#1' })
+
+		expect(decodeCursor(cursor, { secret: 'shh', scope: 'orders:USER#1' })).toEqual(key)
+		expect(() => decodeCursor(cursor, { secret: 'shh', scope: 'orders:USER#2' })).toThrow(
+			ValidationError
+		)
+	})
+
+	it('should reject an expired cursor', () => {
+		const cursor = encodeCursor(key, { ttl: 60, clock })
+
+		expect(decodeCursor(cursor, { clock: () => clock() + 59999 })).toEqual(key)
+		expect(() => decodeCursor(cursor, { clock: () => clock() + 60000 })).toThrow(
+			'Cursor has expired'
+		)
+	})
+
+	it('should reject malformed cursors', () => {
+		expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError)
+		expect(() => decodeCursor('a.b.c')).toThrow(ValidationError)
+	})
+
+	it('should decode cursors passed to the query and scan builders', () => {
+		const cursorOptions = { secret: 'shh' }
+		const cursor = encodeCursor(key, cursorOptions)
+
+		expect(
+			buildQueryInput({ tableName: 'test', nextToken: cursor, cursorOptions }).ExclusiveStartKey
+		).toEqual(key)
+		expect(
+			buildScanInput({ tableName: 'test', startKey: cursor, cursorOptions }).ExclusiveStartKey
+		).toEqual(key)
+		expect(() =>
+			buildQueryInput({ tableName: 'test', nextToken: encodeCursor(key), cursorOptions })
+		).toThrow(ValidationError)
+	})
+})
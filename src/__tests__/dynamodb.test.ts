@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+	DeleteCommand,
+	DynamoDBDocumentClient,
+	GetCommand,
+	PutCommand,
+	QueryCommand,
+	UpdateCommand
+} from '@aws-sdk/lib-dynamodb'
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb'
+import { DynamoDb } from '../dynamodb'
+import {
+	CreateError,
+	ItemExistsError,
+	ItemNotFoundError,
+	QueryError,
+	ValidationError
+} from '../errors'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const conditionalCheckFailed = () =>
+	new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} })
+
+describe('DynamoDb', () => {
+	let dynamoDb: DynamoDb
+
+	beforeEach(() => {
+		ddbMock.reset()
+		dynamoDb = new DynamoDb({ region: 'us-east-1' })
+	})
+
+	describe('query', () => {
+		it('should return the queried items', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [{ id: '1' }, { id: '2' }] })
+
+			const items = await dynamoDb.query({ tableName: 'users', query: { id: '1' } })
+
+			expect(items).toEqual([{ id: '1' }, { id: '2' }])
+			expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+				TableName: 'users',
+				KeyConditionExpression: 'id = :i',
+				ExpressionAttributeValues: { ':i': '1' }
+			})
+		})
+
+		it('should wrap SDK failures in a QueryError', async () => {
+			ddbMock.on(QueryCommand).rejects(new Error('boom'))
+
+			await expect(dynamoDb.query({ tableName: 'users', query: { id: '1' } })).rejects.toThrow(
+				QueryError
+			)
+		})
+
+		it('should throw ValidationError for an invalid table name', async () => {
+			await expect(dynamoDb.query({ tableName: '' })).rejects.toThrow(ValidationError)
+		})
+	})
+
+	describe('queryRecord', () => {
+		it('should return the first item', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [{ id: '1' }, { id: '2' }] })
+
+			await expect(dynamoDb.queryRecord({ tableName: 'users', query: { id: '1' } })).resolves.toEqual(
+				{ id: '1' }
+			)
+		})
+
+		it('should return undefined when nothing matches', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [] })
+
+			await expect(
+				dynamoDb.queryRecord({ tableName: 'users', query: { id: '1' } })
+			).resolves.toBeUndefined()
+		})
+	})
+
+	describe('create', () => {
+		it('should put the item guarded by an attribute_not_exists condition', async () => {
+			ddbMock.on(PutCommand).resolves({})
+
+			const item = await dynamoDb.create({
+				tableName: 'users',
+				key: { id: '1' } as any,
+				params: { name: 'John' }
+			})
+
+			expect(item).toEqual({ id: '1', name: 'John' })
+			expect(ddbMock.commandCalls(PutCommand)[0].args[0].input).toEqual({
+				TableName: 'users',
+				Item: { id: '1', name: 'John' },
+				ConditionExpression: 'attribute_not_exists(#id)',
+				ExpressionAttributeNames: { '#id': 'id' }
+			})
+		})
+
+		it('should throw ItemExistsError when the condition fails', async () => {
+			ddbMock.on(PutCommand).rejects(conditionalCheckFailed())
+
+			await expect(
+				dynamoDb.create({ tableName: 'users', key: { id: '1' } as any, params: {} })
+			).rejects.toThrow(ItemExistsError)
+		})
+
+		it('should throw CreateError on other failures', async () => {
+			ddbMock.on(PutCommand).rejects(new Error('boom'))
+
+			await expect(
+				dynamoDb.create({ tableName: 'users', key: { id: '1' } as any, params: {} })
+			).rejects.toThrow(CreateError)
+		})
+
+		it('should throw ValidationError without a key', async () => {
+			await expect(dynamoDb.create({ tableName: 'users', params: {} })).rejects.toThrow(
+				ValidationError
+			)
+		})
+	})
+
+	describe('findRecord', () => {
+		it('should return the item', async () => {
+			ddbMock.on(GetCommand).resolves({ Item: { id: '1', name: 'John' } })
+
+			await expect(
+				dynamoDb.findRecord({ tableName: 'users', key: { id: '1' } as any })
+			).resolves.toEqual({ id: '1', name: 'John' })
+		})
+
+		it('should throw ItemNotFoundError when the item does not exist', async () => {
+			ddbMock.on(GetCommand).resolves({})
+
+			await expect(
+				dynamoDb.findRecord({ tableName: 'users', key: { id: '1' } as any })
+			).rejects.toThrow(ItemNotFoundError)
+		})
+	})
+
+	describe('update', () => {
+		it('should update the item guarded by an attribute_exists condition', async () => {
+			ddbMock.on(UpdateCommand).resolves({ Attributes: { id: '1', name: 'Jane' } })
+
+			const item = await dynamoDb.update({
+				tableName: 'users',
+				key: { id: '1' } as any,
+				params: { name: 'Jane' }
+			})
+
+			expect(item).toEqual({ id: '1', name: 'Jane' })
+			expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input).toMatchObject({
+				ConditionExpression: 'attribute_exists(#id)',
+				ExpressionAttributeNames: { '#name': 'name', '#id': 'id' }
+			})
+		})
+
+		it('should throw ItemNotFoundError when the item does not exist', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed())
+
+			await expect(
+				dynamoDb.update({ tableName: 'users', key: { id: '1' } as any, params: { name: 'Jane' } })
+			).rejects.toThrow(ItemNotFoundError)
+		})
+	})
+
+	describe('delete', () => {
+		it('should delete the item and return its key and status', async () => {
+			ddbMock.on(DeleteCommand).resolves({})
+
+			await expect(
+				dynamoDb.delete({ tableName: 'users', key: { id: '1' } as any })
+			).resolves.toEqual({ id: '1', status: 'deleted' })
+		})
+	})
+})
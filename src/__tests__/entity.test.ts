@@ -0,0 +1,291 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import {
+	DeleteCommand,
+	DynamoDBDocumentClient,
+	GetCommand,
+	PutCommand,
+	QueryCommand,
+	UpdateCommand
+} from '@aws-sdk/lib-dynamodb'
+import { defineEntity } from '../entity'
+import { ItemNotFoundError, QueryError, ValidationError } from '../errors'
+import { beginsWith, eq } from '../utils/expression'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+interface Order extends Record<string, unknown> {
+	customerId: string
+	orderId: string
+	status: string
+	total: number
+	tags?: Set<string>
+	search?: string
+	placedAt?: number
+}
+
+const orders = defineEntity<Order>(client, {
+	tableName: 'orders',
+	key: { partitionKey: 'customerId', sortKey: 'orderId' },
+	indexes: { byStatus: { partitionKey: 'status', sortKey: 'placedAt' } },
+	attributes: {
+		customerId: { type: 'S', required: true },
+		orderId: { type: 'S', required: true },
+		status: { type: 'S', default: 'pending' },
+		total: { type: 'N', required: true },
+		tags: { type: 'SS' },
+		placedAt: { type: 'N', default: () => 1700000000 }
+	},
+	computed: {
+		search: (item) => `${item.status}#${item.orderId}`
+	}
+})
+
+describe('Entity', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	describe('item', () => {
+		it('should fill in defaults and computed attributes', () => {
+			expect(orders.item({ customerId: 'c1', orderId: 'o1', total: 10 })).toEqual({
+				customerId: 'c1',
+				orderId: 'o1',
+				total: 10,
+				status: 'pending',
+				placedAt: 1700000000,
+				search: 'pending#o1'
+			})
+		})
+
+		it('should reject missing required attributes', () => {
+			expect(() => orders.item({ customerId: 'c1', orderId: 'o1' })).toThrow(
+				'Attribute total is required'
+			)
+		})
+
+		it('should reject values of the wrong type', () => {
+			expect(() =>
+				orders.item({
+					customerId: 'c1',
+					orderId: 'o1',
+					total: '10' as any,
+					tags: new Set([1]) as any
+				})
+			).toThrow(ValidationError)
+		})
+	})
+
+	it('should extract and require the key attributes', () => {
+		expect(orders.key({ customerId: 'c1', orderId: 'o1', total: 5 })).toEqual({
+			customerId: 'c1',
+			orderId: 'o1'
+		})
+		expect(() => orders.key({ customerId: 'c1' })).toThrow(ValidationError)
+	})
+
+	it('should put the completed item', async () => {
+		ddbMock.on(PutCommand).resolves({})
+
+		const item = await orders.put({ customerId: 'c1', orderId: 'o1', total: 10 })
+
+		expect(item.status).toBe('pending')
+		expect(ddbMock.commandCalls(PutCommand)[0].args[0].input).toEqual({
+			TableName: 'orders',
+			Item: item
+		})
+	})
+
+	it('should get an item by key', async () => {
+		ddbMock.on(GetCommand).resolves({ Item: { customerId: 'c1', orderId: 'o1', total: 10 } })
+
+		const item = await orders.get({ customerId: 'c1', orderId: 'o1' })
+
+		expect(item?.total).toBe(10)
+		expect(ddbMock.commandCalls(GetCommand)[0].args[0].input).toEqual({
+			TableName: 'orders',
+			Key: { customerId: 'c1', orderId: 'o1' }
+		})
+	})
+
+	describe('update', () => {
+		it('should update an existing item', async () => {
+			ddbMock.on(UpdateCommand).resolves({ Attributes: { status: 'shipped' } })
+
+			await orders.update({ customerId: 'c1', orderId: 'o1' }, { status: 'shipped' })
+
+			expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input).toMatchObject({
+				Key: { customerId: 'c1', orderId: 'o1' },
+				UpdateExpression: 'SET #status = :s0',
+				ConditionExpression: 'attribute_exists(#customerId) AND attribute_exists(#orderId)'
+			})
+		})
+
+		it('should throw ItemNotFoundError when the item does not exist', async () => {
+			ddbMock
+				.on(UpdateCommand)
+				.rejects(new ConditionalCheckFailedException({ message: 'failed', $metadata: {} }))
+
+			await expect(
+				orders.update({ customerId: 'c1', orderId: 'o1' }, { status: 'shipped' })
+			).rejects.toThrow(ItemNotFoundError)
+		})
+
+		it('should reject key changes and values of the wrong type', async () => {
+			await expect(
+				orders.update({ customerId: 'c1', orderId: 'o1' }, { orderId: 'o2' })
+			).rejects.toThrow(ValidationError)
+			await expect(
+				orders.update({ customerId: 'c1', orderId: 'o1' }, { total: 'ten' as any })
+			).rejects.toThrow(ValidationError)
+		})
+	})
+
+	it('should delete an item by key with a condition', async () => {
+		ddbMock.on(DeleteCommand).resolves({})
+
+		await orders.delete({ customerId: 'c1', orderId: 'o1' }, { condition: eq('status', 'pending') })
+
+		expect(ddbMock.commandCalls(DeleteCommand)[0].args[0].input).toMatchObject({
+			Key: { customerId: 'c1', orderId: 'o1' },
+			ConditionExpression: '#status = :v0'
+		})
+	})
+
+	describe('query', () => {
+		it('should query a partition with a sort key condition', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [{ orderId: 'o1' }] })
+
+			const page = await orders.query('c1', { sortKey: beginsWith('orderId', '2024') })
+
+			expect(page.items).toEqual([{ orderId: 'o1' }])
+			expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+				TableName: 'orders',
+				KeyConditionExpression: 'customerId = :c and begins_with(#orderId, :v0)',
+				ConsistentRead: true
+			})
+		})
+
+		it('should query a declared index without consistent reads', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [] })
+
+			await orders.query('shipped', { indexName: 'byStatus' })
+
+			const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input
+			expect(input).toMatchObject({
+				IndexName: 'byStatus',
+				ExpressionAttributeValues: { ':s': 'shipped' }
+			})
+			expect(input.ConsistentRead).toBeUndefined()
+		})
+
+		it('should reject undeclared indexes', async () => {
+			await expect(orders.query('x', { indexName: 'byTotal' })).rejects.toThrow(ValidationError)
+		})
+
+		it('should wrap SDK failures in a QueryError', async () => {
+			ddbMock.on(QueryCommand).rejects(new Error('boom'))
+
+			await expect(orders.query('c1')).rejects.toThrow(QueryError)
+		})
+	})
+
+	describe('key templates', () => {
+		interface UserOrder extends Record<string, unknown> {
+			PK?: string
+			SK?: string
+			GSI1PK?: string
+			userId: string
+			date: string
+			orderId: string
+			status: string
+			total: number
+		}
+
+		const userOrders = defineEntity<UserOrder>(client, {
+			tableName: 'app',
+			key: { partitionKey: 'PK', sortKey: 'SK' },
+			indexes: { gsi1: { partitionKey: 'GSI1PK', sortKey: 'SK' } },
+			templates: {
+				PK: 'USER#{userId}',
+				SK: 'ORDER#{date}#{orderId}',
+				GSI1PK: 'STATUS#{status}'
+			},
+			entityType: 'Order',
+			attributes: {
+				userId: { type: 'S', required: true },
+				total: { type: 'N' }
+			}
+		})
+		const attrs = { userId: 'u1', date: '2024-03-20', orderId: 'o1' }
+
+		it('should build the keys and the discriminator on put', () => {
+			expect(userOrders.item({ ...attrs, status: 'pending', total: 5 })).toEqual({
+				...attrs,
+				status: 'pending',
+				total: 5,
+				PK: 'USER#u1',
+				SK: 'ORDER#2024-03-20#o1',
+				GSI1PK: 'STATUS#pending',
+				entityType: 'Order'
+			})
+		})
+
+		it('should build keys from the template attributes', () => {
+			expect(userOrders.key(attrs)).toEqual({ PK: 'USER#u1', SK: 'ORDER#2024-03-20#o1' })
+			expect(userOrders.key({ PK: 'USER#u1', SK: 'ORDER#x#y' })).toEqual({
+				PK: 'USER#u1',
+				SK: 'ORDER#x#y'
+			})
+		})
+
+		it('should parse keys back into attributes', () => {
+			expect(userOrders.parse({ PK: 'USER#u1', SK: 'ORDER#2024-03-20#o1' })).toEqual({
+				...attrs,
+				PK: 'USER#u1',
+				SK: 'ORDER#2024-03-20#o1'
+			})
+		})
+
+		it('should query all items of a template prefix', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [] })
+
+			await userOrders.query({ userId: 'u1' })
+			await userOrders.query({ userId: 'u1', date: '2024-03-20' })
+
+			const [all, day] = ddbMock.commandCalls(QueryCommand).map((x) => x.args[0].input)
+			expect(all).toMatchObject({
+				KeyConditionExpression: 'PK = :P and begins_with(#SK, :v0)',
+				ExpressionAttributeValues: { ':P': 'USER#u1', ':v0': 'ORDER#' }
+			})
+			expect(day.ExpressionAttributeValues).toEqual({
+				':P': 'USER#u1',
+				':v0': 'ORDER#2024-03-20#'
+			})
+		})
+
+		it('should query a complete templated sort key exactly', async () => {
+			ddbMock.on(QueryCommand).resolves({ Items: [] })
+
+			await userOrders.query({ userId: 'u1', date: '2024-03-20', orderId: 'o1' })
+
+			expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+				KeyConditionExpression: 'PK = :P and #SK = :v0',
+				ExpressionAttributeValues: { ':P': 'USER#u1', ':v0': 'ORDER#2024-03-20#o1' }
+			})
+		})
+
+		it('should rebuild templated index keys on update and protect key attributes', async () => {
+			ddbMock.on(UpdateCommand).resolves({ Attributes: {} })
+
+			await userOrders.update(attrs, { status: 'shipped' })
+
+			const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input
+			expect(input.Key).toEqual({ PK: 'USER#u1', SK: 'ORDER#2024-03-20#o1' })
+			expect(Object.values(input.ExpressionAttributeValues || {})).toContain('STATUS#shipped')
+			await expect(userOrders.update(attrs, { orderId: 'o2' })).rejects.toThrow(ValidationError)
+		})
+	})
+})
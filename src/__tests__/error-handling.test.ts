@@ -1,4 +1,13 @@
-import { describe, expect, it } from '@jest/globals'
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+	ConditionalCheckFailedException,
+	ProvisionedThroughputExceededException,
+	ResourceNotFoundException
+} from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb'
+import { DynamoDb } from '../dynamodb'
+import { isRetryable } from '../retry'
 import {
 	ItemExistsError,
 	ItemNotFoundError,
@@ -11,12 +20,14 @@ import {
 	PermissionError,
 	RateLimitError,
 	TimeoutError,
+	TableOperationError,
 	ResourceNotFoundError,
 	ResourceInUseError,
 	ResourceNotAvailableError,
 	ResourceNotSupportedError,
 	ResourceNotAuthorizedError,
-	ValidationError
+	ValidationError,
+	translateError
 } from '../errors'
 
 describe('Error Handling', () => {
@@ -157,4 +168,114 @@ describe('Error Handling', () => {
 			expect(error.name).toBe('ValidationError')
 		})
 	})
+
+	describe('translateError', () => {
+		const metadata = { requestId: 'req-1' }
+		let ddbMock: ReturnType<typeof mockClient>
+
+		beforeEach(() => {
+			ddbMock = mockClient(DynamoDBDocumentClient)
+		})
+
+		afterEach(() => {
+			ddbMock.restore()
+		})
+
+		it('should translate throttling into rate limit errors', () => {
+			const cause = new ProvisionedThroughputExceededException({
+				message: 'Throughput exceeded',
+				$metadata: metadata
+			})
+			const error = translateError(cause, { operation: 'query', tableName: 'users' })
+
+			expect(error).toBeInstanceOf(RateLimitError)
+			expect(error).toMatchObject({
+				message: 'Throughput exceeded',
+				cause,
+				requestId: 'req-1',
+				tableName: 'users',
+				operation: 'query'
+			})
+			expect(
+				translateError(
+					{ name: 'ThrottlingException', message: 'Rate exceeded' },
+					{ operation: 'get' }
+				)
+			).toBeInstanceOf(RateLimitError)
+		})
+
+		it('should not treat control plane quotas as throttling', () => {
+			const error = translateError(
+				{ name: 'LimitExceededException', message: 'Too many tables' },
+				{ operation: 'createTable', tableName: 'users' }
+			)
+
+			expect(error).toBeInstanceOf(TableOperationError)
+			expect(error).not.toBeInstanceOf(RateLimitError)
+			expect(isRetryable(error)).toBe(false)
+			expect(error.operation).toBe('createTable')
+		})
+
+		it('should translate failed create conditions into item exists errors', () => {
+			const cause = new ConditionalCheckFailedException({ message: 'failed', $metadata: metadata })
+			const context = { tableName: 'users', key: { id: '1' } }
+
+			expect(translateError(cause, { ...context, operation: 'create' })).toBeInstanceOf(
+				ItemExistsError
+			)
+			expect(translateError(cause, { ...context, operation: 'update' })).not.toBeInstanceOf(
+				ItemExistsError
+			)
+		})
+
+		it('should translate access, credential, resource and network failures', () => {
+			const context = { operation: 'query', tableName: 'users' }
+			const missing = new ResourceNotFoundException({ message: 'missing', $metadata: {} })
+
+			expect(translateError({ name: 'AccessDeniedException' }, context)).toBeInstanceOf(
+				PermissionError
+			)
+			expect(translateError({ name: 'UnrecognizedClientException' }, context)).toBeInstanceOf(
+				CredentialsError
+			)
+			expect(translateError(missing, context)).toBeInstanceOf(ResourceNotFoundError)
+			expect(translateError({ name: 'ResourceInUseException' }, context)).toBeInstanceOf(
+				ResourceInUseError
+			)
+			expect(translateError({ name: 'TimeoutError' }, context)).toBeInstanceOf(TimeoutError)
+			expect(translateError({ code: 'ECONNREFUSED' }, context)).toBeInstanceOf(ConnectionError)
+		})
+
+		it('should fall back for unknown failures and keep translated errors', () => {
+			const cause = new Error('boom')
+			const fallback = (message: string, operation: string) =>
+				new QueryError(`Failed to query: ${message}`, operation)
+			const error = translateError(cause, { operation: 'findRecord' }, fallback)
+			const validation = new ValidationError('Invalid value')
+
+			expect(error).toBeInstanceOf(QueryError)
+			expect(error).toMatchObject({
+				message: 'Failed to query: boom',
+				operation: 'findRecord',
+				cause
+			})
+			expect(translateError(cause, { operation: 'scan' }).name).toBe('DynamoDbError')
+			expect(translateError(validation, { operation: 'query' })).toBe(validation)
+		})
+
+		it('should translate failures of client calls', async () => {
+			ddbMock
+				.on(QueryCommand)
+				.rejects(
+					new ProvisionedThroughputExceededException({ message: 'slow down', $metadata: metadata })
+				)
+
+			const error = await new DynamoDb({ region: 'us-east-1' })
+				.query({ tableName: 'users', params: { id: '1' } })
+				.catch((e) => e)
+
+			expect(error).toBeInstanceOf(RateLimitError)
+			expect(error).toMatchObject({ tableName: 'users', operation: 'query', requestId: 'req-1' })
+		})
+	})
 })
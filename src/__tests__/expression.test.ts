@@ -0,0 +1,143 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+	ExpressionContext,
+	buildConditionExpression,
+	eq,
+	ne,
+	lt,
+	gte,
+	between,
+	isIn,
+	beginsWith,
+	contains,
+	attributeExists,
+	attributeNotExists,
+	attributeType,
+	size,
+	and,
+	or,
+	not
+} from '../utils/expression'
+import { buildDeleteInput, buildPutInput, buildScanInput, buildUpdateInput } from '../utils'
+import { ValidationError } from '../errors'
+
+describe('Expression', () => {
+	describe('ExpressionContext', () => {
+		it('should reuse the placeholder of an attribute already named', () => {
+			const context = new ExpressionContext({ '#name': 'name' })
+			expect(context.name('name')).toBe('#name')
+		})
+
+		it('should not collide with placeholders already allocated', () => {
+			const context = new ExpressionContext({ '#name': 'other' }, { ':v0': 'taken' })
+			expect(context.name('name')).toBe('#n0')
+			expect(context.value('value')).toBe(':v1')
+			expect(context.names).toEqual({ '#name': 'other', '#n0': 'name' })
+			expect(context.values).toEqual({ ':v0': 'taken', ':v1': 'value' })
+		})
+
+		it('should use an indexed placeholder for names that are not valid tokens', () => {
+			const context = new ExpressionContext()
+			expect(context.name('first-name')).toBe('#n0')
+		})
+	})
+
+	describe('buildConditionExpression', () => {
+		it('should compile comparison operators', () => {
+			expect(buildConditionExpression(ne('status', 'closed'))).toEqual({
+				expression: '#status <> :v0',
+				ExpressionAttributeNames: { '#status': 'status' },
+				ExpressionAttributeValues: { ':v0': 'closed' }
+			})
+		})
+
+		it('should compile functions and size operands', () => {
+			const { expression, ExpressionAttributeValues } = buildConditionExpression(
+				and(
+					beginsWith('sk', 'ORDER#'),
+					contains('tags', 'red'),
+					attributeExists('email'),
+					attributeNotExists('deletedAt'),
+					attributeType('age', 'N'),
+					gte(size('items'), 2)
+				)
+			)
+
+			expect(expression).toBe(
+				'begins_with(#sk, :v0) AND contains(#tags, :v1) AND attribute_exists(#email) AND ' +
+					'attribute_not_exists(#deletedAt) AND attribute_type(#age, :v2) AND size(#items) >= :v3'
+			)
+			expect(ExpressionAttributeValues).toEqual({
+				':v0': 'ORDER#',
+				':v1': 'red',
+				':v2': 'N',
+				':v3': 2
+			})
+		})
+
+		it('should compile between and in', () => {
+			expect(
+				buildConditionExpression(and(between('age', 18, 65), isIn('status', ['a', 'b']))).expression
+			).toBe('#age BETWEEN :v0 AND :v1 AND #status IN (:v2, :v3)')
+		})
+
+		it('should parenthesize nested logical conditions', () => {
+			expect(
+				buildConditionExpression(or(eq('a', 1), and(lt('b', 2), not(eq('c', 3))))).expression
+			).toBe('#a = :v0 OR (#b < :v1 AND (NOT #c = :v2))')
+		})
+
+		it('should throw ValidationError for an empty IN list', () => {
+			expect(() => buildConditionExpression(isIn('status', []))).toThrow(ValidationError)
+		})
+
+		it('should throw ValidationError for an empty logical condition', () => {
+			expect(() => buildConditionExpression(and())).toThrow(ValidationError)
+		})
+	})
+
+	describe('builders', () => {
+		it('should add a condition expression to put input', () => {
+			expect(
+				buildPutInput({ tableName: 'test', params: { id: '1' }, condition: attributeNotExists('id') })
+			).toEqual({
+				TableName: 'test',
+				Item: { id: '1' },
+				ConditionExpression: 'attribute_not_exists(#id)',
+				ExpressionAttributeNames: { '#id': 'id' }
+			})
+		})
+
+		it('should add a condition expression to delete input', () => {
+			expect(
+				buildDeleteInput({ tableName: 'test', key: {}, condition: eq('status', 'closed') })
+			).toMatchObject({
+				ConditionExpression: '#status = :v0',
+				ExpressionAttributeValues: { ':v0': 'closed' }
+			})
+		})
+
+		it('should share placeholders with the update expression', () => {
+			const result = buildUpdateInput({
+				tableName: 'test',
+				key: { id: '1' },
+				params: { name: 'Jane' },
+				condition: ne('name', 'Jane')
+			})
+
+			expect(result.ConditionExpression).toBe('#name <> :v0')
+			expect(result.ExpressionAttributeNames).toEqual({ '#name': 'name' })
+			expect(result.ExpressionAttributeValues).toEqual({ ':n0': 'Jane', ':v0': 'Jane' })
+		})
+
+		it('should combine a filter with the scan param filters', () => {
+			const result = buildScanInput({
+				tableName: 'test',
+				params: { name: 'Jane' },
+				filter: gte('age', 18)
+			})
+
+			expect(result.FilterExpression).toBe('(#name = :n0) AND (#age >= :v0)')
+		})
+	})
+})
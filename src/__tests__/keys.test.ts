@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals'
+import { keyTemplate } from '../utils/keys'
+import { ValidationError } from '../errors'
+
+describe('keyTemplate', () => {
+	const sk = keyTemplate('ORDER#{date}#{orderId}')
+
+	it('should build composite keys from attributes', () => {
+		expect(sk.attributes).toEqual(['date', 'orderId'])
+		expect(sk.build({ date: '2024-03-20', orderId: 'o1', total: 5 })).toBe('ORDER#2024-03-20#o1')
+		expect(keyTemplate('USER#{id}').build({ id: 42 })).toBe('USER#42')
+		expect(keyTemplate('AT#{at}').build({ at: new Date('2024-03-20T00:00:00.000Z') })).toBe(
+			'AT#2024-03-20T00:00:00.000Z'
+		)
+	})
+
+	it('should require every attribute to build', () => {
+		expect(() => sk.build({ date: '2024-03-20' })).toThrow(ValidationError)
+		expect(sk.complete({ date: '2024-03-20' })).toBe(false)
+	})
+
+	it('should build the prefix the leading attributes allow', () => {
+		expect(sk.prefix()).toBe('ORDER#')
+		expect(sk.prefix({ date: '2024-03-20' })).toBe('ORDER#2024-03-20#')
+		expect(sk.prefix({ orderId: 'o1' })).toBe('ORDER#')
+	})
+
+	it('should parse keys back into attributes', () => {
+		expect(sk.parse('ORDER#2024-03-20#o1#x')).toEqual({ date: '2024-03-20', orderId: 'o1#x' })
+		expect(sk.matches('ORDER#2024-03-20#o1')).toBe(true)
+		expect(sk.matches('USER#1')).toBe(false)
+		expect(() => sk.parse('USER#1')).toThrow(ValidationError)
+	})
+
+	it('should round-trip built keys', () => {
+		const values = { date: '2024-03-20', orderId: 'o1#x' }
+
+		expect(sk.parse(sk.build(values))).toEqual(values)
+		expect(
+			keyTemplate('{a}::{b}').parse(keyTemplate('{a}::{b}').build({ a: ':x', b: 'y' }))
+		).toEqual({ a: ':x', b: 'y' })
+	})
+
+	it('should reject values containing the literal text following them', () => {
+		expect(() => sk.build({ date: '2024#03', orderId: 'o1' })).toThrow(ValidationError)
+		expect(() => sk.prefix({ date: '2024#03' })).toThrow(ValidationError)
+		expect(() => keyTemplate('{a}##{b}').build({ a: 'x#', b: 'y' })).toThrow(ValidationError)
+	})
+
+	it('should escape literal text and support constant keys', () => {
+		expect(keyTemplate('v1.{id}').matches('v1x1')).toBe(false)
+		expect(keyTemplate('PROFILE').parse('PROFILE')).toEqual({})
+	})
+
+	it('should reject attributes without a separator', () => {
+		expect(() => keyTemplate('{a}{b}')).toThrow(ValidationError)
+		expect(() => keyTemplate('')).toThrow(ValidationError)
+	})
+})
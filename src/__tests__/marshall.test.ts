@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+	BatchGetItemCommand,
+	BatchWriteItemCommand,
+	DynamoDBClient,
+	TransactGetItemsCommand
+} from '@aws-sdk/client-dynamodb'
+import {
+	buildDeleteInput,
+	buildGetInput,
+	buildPutInput,
+	buildQueryInput,
+	buildScanInput,
+	buildUpdateInput
+} from '../utils'
+import { marshallItem, unmarshallItem } from '../utils/marshall'
+import { eq, listAppend } from '../utils/expression'
+import BulkGet from '../BulkGet'
+import Bulkify from '../Bulkify'
+import TransactGet from '../TransactGet'
+import TransactWrite from '../TransactWrite'
+
+const client = new DynamoDBClient({ region: 'us-east-1' })
+
+describe('marshalling', () => {
+	let ddbMock: ReturnType<typeof mockClient>
+
+	beforeEach(() => {
+		ddbMock = mockClient(DynamoDBClient)
+	})
+
+	afterEach(() => {
+		ddbMock.restore()
+	})
+	it('should leave values untouched in document mode', () => {
+		const result = buildPutInput({ tableName: 'test', params: { id: '1', count: 2 } })
+
+		expect(result.Item).toEqual({ id: '1', count: 2 })
+	})
+
+	it('should marshall every value type in low-level mode', () => {
+		const binary = new Uint8Array([1, 2, 3])
+		const result = buildPutInput({
+			tableName: 'test',
+			mode: 'lowLevel',
+			params: {
+				id: '1',
+				count: 2,
+				active: true,
+				deleted: null,
+				createdAt: new Date('2024-03-20T10:00:00.000Z'),
+				tags: new Set(['a', 'b']),
+				scores: new Set([1, 2]),
+				data: binary,
+				history: [{ at: new Date('2024-01-01T00:00:00.000Z') }, 'note'],
+				profile: { name: 'Ann', address: { city: 'Oslo' } },
+				missing: undefined
+			}
+		})
+
+		expect(result.Item).toEqual({
+			id: { S: '1' },
+			count: { N: '2' },
+			active: { BOOL: true },
+			deleted: { NULL: true },
+			createdAt: { S: '2024-03-20T10:00:00.000Z' },
+			tags: { SS: ['a', 'b'] },
+			scores: { NS: ['1', '2'] },
+			data: { B: binary },
+			history: { L: [{ M: { at: { S: '2024-01-01T00:00:00.000Z' } } }, { S: 'note' }] },
+			profile: { M: { name: { S: 'Ann' }, address: { M: { city: { S: 'Oslo' } } } } }
+		})
+	})
+
+	it('should marshall keys and condition values', () => {
+		const result = buildDeleteInput({
+			tableName: 'test',
+			mode: 'lowLevel',
+			key: { id: '1' } as any,
+			condition: eq('status', 'closed')
+		})
+
+		expect(result).toEqual({
+			TableName: 'test',
+			Key: { id: { S: '1' } },
+			ConditionExpression: '#status = :v0',
+			ExpressionAttributeNames: { '#status': 'status' },
+			ExpressionAttributeValues: { ':v0': { S: 'closed' } }
+		})
+		expect(
+			buildGetInput({ tableName: 'test', mode: 'lowLevel', key: { id: 1 } as any }).Key
+		).toEqual({ id: { N: '1' } })
+	})
+
+	it('should marshall update values, including update functions', () => {
+		const result = buildUpdateInput({
+			tableName: 'test',
+			mode: 'lowLevel',
+			key: { id: '1' },
+			params: { events: listAppend(['created']) },
+			add: { visits: 1 }
+		})
+
+		expect(result.Key).toEqual({ id: { S: '1' } })
+		expect(Object.values(result.ExpressionAttributeValues || {})).toEqual(
+			expect.arrayContaining([{ L: [{ S: 'created' }] }, { N: '1' }])
+		)
+	})
+
+	it('should marshall query and scan values but keep the start key', () => {
+		const startKey = { id: { S: 'last' } }
+		const query = buildQueryInput({
+			tableName: 'test',
+			mode: 'lowLevel',
+			params: { pk: 'USER#1' },
+			nextToken: startKey
+		})
+		const scan = buildScanInput({ tableName: 'test', mode: 'lowLevel', params: { age: 25 } })
+
+		expect(query.ExpressionAttributeValues).toEqual({ ':p': { S: 'USER#1' } })
+		expect(query.ExclusiveStartKey).toBe(startKey)
+		expect(scan.ExpressionAttributeValues).toEqual({ ':a0': { N: '25' } })
+	})
+
+	it('should marshall every operation of a transaction', () => {
+		const transaction = new TransactWrite({ mode: 'lowLevel' })
+		transaction.put({ tableName: 'orders', params: { id: '1' } })
+		transaction.delete({ tableName: 'carts', key: { id: 'c1' } as any })
+
+		expect(transaction.input.TransactItems).toEqual([
+			{ Put: { TableName: 'orders', Item: { id: { S: '1' } } } },
+			{ Delete: { TableName: 'carts', Key: { id: { S: 'c1' } } } }
+		])
+	})
+
+	it('should round trip items', () => {
+		const item = { id: '1', tags: new Set(['a']), nested: { list: [1, null] } }
+
+		expect(unmarshallItem(marshallItem(item))).toEqual(item)
+	})
+
+	it('should unmarshall low-level transactional gets', async () => {
+		ddbMock.on(TransactGetItemsCommand).resolves({
+			Responses: [{ Item: { id: { S: 'u1' }, age: { N: '30' } } }]
+		})
+		const transaction = new TransactGet({ mode: 'lowLevel' }).get('user', {
+			tableName: 'users',
+			key: { id: 'u1' } as any
+		})
+
+		const { user } = await transaction.execute(client)
+
+		expect(user).toEqual({ id: 'u1', age: 30 })
+		expect(ddbMock.commandCalls(TransactGetItemsCommand)[0].args[0].input).toEqual({
+			TransactItems: [{ Get: { TableName: 'users', Key: { id: { S: 'u1' } } } }]
+		})
+	})
+
+	it('should send marshalled low-level batch writes', async () => {
+		ddbMock.on(BatchWriteItemCommand).resolves({})
+		const bulk = new Bulkify({ mode: 'lowLevel' })
+		bulk.add('users', { id: 'u1', age: 30 })
+		bulk.delete('carts', { id: 'c1' })
+
+		await expect(bulk.execute(client)).resolves.toMatchObject({ written: 2 })
+		expect(ddbMock.commandCalls(BatchWriteItemCommand)[0].args[0].input).toEqual({
+			RequestItems: {
+				users: [{ PutRequest: { Item: { id: { S: 'u1' }, age: { N: '30' } } } }],
+				carts: [{ DeleteRequest: { Key: { id: { S: 'c1' } } } }]
+			}
+		})
+	})
+
+	it('should unmarshall low-level batch gets', async () => {
+		ddbMock.on(BatchGetItemCommand).resolves({
+			Responses: { users: [{ id: { S: 'u1' }, age: { N: '30' } }] }
+		})
+		const bulk = new BulkGet({ mode: 'lowLevel' })
+		bulk.add('users', [{ id: 'u1' }, { id: 'u2' }])
+
+		await expect(bulk.execute(client)).resolves.toEqual([
+			{ tableName: 'users', key: { id: 'u1' }, item: { id: 'u1', age: 30 } },
+			{ tableName: 'users', key: { id: 'u2' }, item: null }
+		])
+		expect(ddbMock.commandCalls(BatchGetItemCommand)[0].args[0].input).toEqual({
+			RequestItems: { users: { Keys: [{ id: { S: 'u1' } }, { id: { S: 'u2' } }] } }
+		})
+	})
+})
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb'
+import { paginateQuery, paginateScan } from '../utils/pagination'
+import { ValidationError } from '../errors'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+describe('Pagination', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+		ddbMock
+			.on(QueryCommand)
+			.resolvesOnce({ Items: [{ id: 1 }, { id: 2 }], LastEvaluatedKey: { id: 2 } })
+			.resolvesOnce({ Items: [{ id: 3 }, { id: 4 }], LastEvaluatedKey: { id: 4 } })
+			.resolvesOnce({ Items: [{ id: 5 }] })
+	})
+
+	describe('paginateQuery', () => {
+		it('should follow LastEvaluatedKey across pages', async () => {
+			const pages: unknown[] = []
+			for await (const page of paginateQuery(client, { tableName: 'test', params: { pk: 'a' } })) {
+				pages.push(page)
+			}
+
+			expect(pages).toEqual([
+				{ items: [{ id: 1 }, { id: 2 }], lastEvaluatedKey: { id: 2 } },
+				{ items: [{ id: 3 }, { id: 4 }], lastEvaluatedKey: { id: 4 } },
+				{ items: [{ id: 5 }], lastEvaluatedKey: undefined }
+			])
+			const calls = ddbMock.commandCalls(QueryCommand).map((x) => x.args[0].input)
+			expect(calls.map((x) => x.ExclusiveStartKey)).toEqual([undefined, { id: 2 }, { id: 4 }])
+		})
+
+		it('should iterate over individual items', async () => {
+			const items: unknown[] = []
+			for await (const item of paginateQuery(client, { tableName: 'test' }).items()) {
+				items.push(item)
+			}
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }, { id: 5 }])
+		})
+
+		it('should stop at the max pages cap', async () => {
+			const items: unknown[] = []
+			for await (const item of paginateQuery(client, { tableName: 'test' }, { maxPages: 2 }).items()) {
+				items.push(item)
+			}
+
+			expect(items).toHaveLength(4)
+			expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(2)
+		})
+
+		it('should limit requests to the items still allowed by the cap', async () => {
+			const items: unknown[] = []
+			const paginator = paginateQuery(client, { tableName: 'test', limit: 2 }, { maxItems: 3 })
+			for await (const item of paginator.items()) {
+				items.push(item)
+			}
+
+			expect(items).toHaveLength(3)
+			const calls = ddbMock.commandCalls(QueryCommand).map((x) => x.args[0].input)
+			expect(calls.map((x) => x.Limit)).toEqual([2, 1])
+		})
+
+		it('should not request further pages after an early break', async () => {
+			for await (const item of paginateQuery(client, { tableName: 'test' }).items()) {
+				expect(item).toEqual({ id: 1 })
+				break
+			}
+
+			expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(1)
+		})
+
+		it('should reject invalid caps', () => {
+			expect(() => paginateQuery(client, { tableName: 'test' }, { maxItems: 0 })).toThrow(
+				ValidationError
+			)
+		})
+	})
+
+	describe('paginateScan', () => {
+		it('should follow LastEvaluatedKey across pages', async () => {
+			ddbMock
+				.on(ScanCommand)
+				.resolvesOnce({ Items: [{ id: 1 }], LastEvaluatedKey: { id: 1 } })
+				.resolvesOnce({ Items: [{ id: 2 }] })
+
+			const items: unknown[] = []
+			for await (const item of paginateScan(client, { tableName: 'test', limit: 1 }).items()) {
+				items.push(item)
+			}
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }])
+			const calls = ddbMock.commandCalls(ScanCommand).map((x) => x.args[0].input)
+			expect(calls.map((x) => x.ExclusiveStartKey)).toEqual([undefined, { id: 1 }])
+			expect(calls.map((x) => x.Limit)).toEqual([1, 1])
+		})
+	})
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildQueryInput, buildScanInput, buildUpdateInput } from '../utils'
+import { ExpressionContext } from '../utils/expression'
+import { isReservedWord } from '../reserved'
+
+describe('reserved words', () => {
+	it('should match DynamoDB reserved words case-insensitively', () => {
+		expect(isReservedWord('status')).toBe(true)
+		expect(isReservedWord('Name')).toBe(true)
+		expect(isReservedWord('TTL')).toBe(true)
+		expect(isReservedWord('userId')).toBe(false)
+		expect(isReservedWord('public_id')).toBe(false)
+	})
+
+	it('should only escape names that need it when referring to them', () => {
+		const context = new ExpressionContext()
+
+		expect(context.reference('orderId')).toBe('orderId')
+		expect(context.reference('status')).toBe('#status')
+		expect(context.reference('first-name')).toBe('#n0')
+		expect(context.names).toEqual({ '#status': 'status', '#n0': 'first-name' })
+	})
+
+	it('should allocate valid placeholders for any attribute name', () => {
+		const context = new ExpressionContext()
+		const names = ['first-name', 'address.city', 'zip code', 'prénom', '2fa', 'n0']
+
+		const tokens = names.map((name) => context.name(name))
+
+		expect(tokens).toEqual(['#n0', '#n1', '#n2', '#n3', '#n4', '#n5'])
+		expect(tokens.every((token) => /^#[A-Za-z0-9_]+$/.test(token))).toBe(true)
+		expect(context.name('address.city')).toBe('#n1')
+	})
+
+	it('should escape names in key conditions', () => {
+		const result = buildQueryInput({
+			tableName: 'orders',
+			params: { Status: 'open', 'customer-id': 'c1' }
+		})
+
+		expect(result.KeyConditionExpression).toBe('#Status = :S and #n0 = :c')
+		expect(result.ExpressionAttributeNames).toEqual({ '#Status': 'Status', '#n0': 'customer-id' })
+		expect(result.ExpressionAttributeValues).toEqual({ ':S': 'open', ':c': 'c1' })
+	})
+
+	it('should escape names in scan filters and projections', () => {
+		const result = buildScanInput({
+			tableName: 'users',
+			params: { 'first-name': 'Ann', é: 1 },
+			output: ['zip code', 'status']
+		})
+
+		expect(result.FilterExpression).toBe('#n0 = :f0 And #n1 = :v1')
+		expect(result.ProjectionExpression).toBe('#n0, #n1, #n2, #status')
+		expect(result.Select).toBe('SPECIFIC_ATTRIBUTES')
+		expect(result.ExpressionAttributeNames).toEqual({
+			'#n0': 'first-name',
+			'#n1': 'é',
+			'#n2': 'zip code',
+			'#status': 'status'
+		})
+		expect(result.ExpressionAttributeValues).toEqual({ ':f0': 'Ann', ':v1': 1 })
+	})
+
+	it('should escape names in update expressions', () => {
+		const result = buildUpdateInput({
+			tableName: 'users',
+			key: { id: '1' },
+			params: { 'last.login': 1, ünïcode: 'x' },
+			remove: ['nick name']
+		})
+
+		expect(result.UpdateExpression).toBe('SET #n0 = :l0, #n1 = :v1 REMOVE #n2')
+		expect(result.ExpressionAttributeNames).toEqual({
+			'#n0': 'last.login',
+			'#n1': 'ünïcode',
+			'#n2': 'nick name'
+		})
+		expect(result.ExpressionAttributeValues).toEqual({ ':l0': 1, ':v1': 'x' })
+	})
+})
@@ -0,0 +1,287 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+	ConditionalCheckFailedException,
+	DynamoDBClient,
+	ProvisionedThroughputExceededException
+} from '@aws-sdk/client-dynamodb'
+import {
+	BatchWriteCommand,
+	DynamoDBDocumentClient,
+	PutCommand,
+	QueryCommand,
+	TransactGetCommand
+} from '@aws-sdk/lib-dynamodb'
+import { RetryPolicy, isRetryable } from '../retry'
+import { DynamoDb } from '../dynamodb'
+import { paginateQuery } from '../utils/pagination'
+import Bulkify from '../Bulkify'
+import TransactGet from '../TransactGet'
+import {
+	CircuitOpenError,
+	RateLimitError,
+	TimeoutError,
+	TransactionCanceledError,
+	ValidationError
+} from '../errors'
+import { CircuitEvent, RetryEvent } from '../types'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const throttled = () =>
+	new ProvisionedThroughputExceededException({ message: 'Throughput exceeded', $metadata: {} })
+
+const timedOut = () => Object.assign(new Error('Request timed out'), { name: 'TimeoutError' })
+
+/**
+ * Call failing with the given errors, then resolving
+ */
+const failing = (...errors: Error[]) => {
+	let calls = 0
+	const call = async () => {
+		calls++
+		if (errors.length) {
+			throw errors.shift()
+		}
+		return 'ok'
+	}
+	return { call, calls: () => calls }
+}
+
+describe('RetryPolicy', () => {
+	let time: number
+	let delays: number[]
+	const options = () => ({
+		random: () => 0.5,
+		clock: () => time,
+		sleep: async (ms: number) => {
+			delays.push(ms)
+			time += ms
+		}
+	})
+
+	beforeEach(() => {
+		time = 0
+		delays = []
+		ddbMock.reset()
+	})
+
+	it('should retry throttled calls with jittered exponential delays', async () => {
+		const policy = new RetryPolicy(options())
+		const events: RetryEvent[] = []
+		policy.on('retry', (event) => events.push(event))
+		const { call, calls } = failing(throttled(), throttled(), throttled())
+
+		await expect(policy.execute(call, { operation: 'query', tableName: 'users' })).resolves.toBe(
+			'ok'
+		)
+
+		expect(calls()).toBe(4)
+		expect(delays).toEqual([25, 50, 100])
+		expect(events.map((x) => x.attempt)).toEqual([0, 1, 2])
+		expect(events[0]).toMatchObject({ operation: 'query', tableName: 'users', delay: 25 })
+		expect(events[0].error).toBeInstanceOf(RateLimitError)
+	})
+
+	it('should rethrow failures that are not retryable', async () => {
+		const policy = new RetryPolicy(options())
+		const failure = new ConditionalCheckFailedException({ message: 'failed', $metadata: {} })
+		const { call, calls } = failing(failure)
+
+		await expect(policy.execute(call)).rejects.toBe(failure)
+		expect(calls()).toBe(1)
+	})
+
+	it('should give up after the retry budget', async () => {
+		const policy = new RetryPolicy({ ...options(), maxRetries: 2 })
+		const events: RetryEvent[] = []
+		policy.on('giveUp', (event) => events.push(event))
+		const { call, calls } = failing(throttled(), throttled(), throttled(), throttled())
+
+		await expect(policy.execute(call)).rejects.toThrow('Throughput exceeded')
+		expect(calls()).toBe(3)
+		expect(events).toHaveLength(1)
+		expect(events[0].attempt).toBe(2)
+	})
+
+	it('should not retry past the deadline', async () => {
+		const policy = new RetryPolicy({ ...options(), deadline: 100 })
+		const { call, calls } = failing(throttled(), throttled(), throttled(), throttled())
+
+		await expect(policy.execute(call)).rejects.toThrow('Throughput exceeded')
+		// 25 + 50 ms waited, the next 100 ms delay would pass the deadline
+		expect(calls()).toBe(3)
+	})
+
+	it('should only retry calls that are not idempotent when they were not applied', async () => {
+		const policy = new RetryPolicy(options())
+		const context = { operation: 'create', idempotent: false }
+
+		const throttledCall = failing(throttled())
+		await expect(policy.execute(throttledCall.call, context)).resolves.toBe('ok')
+		expect(throttledCall.calls()).toBe(2)
+
+		const timedOutCall = failing(timedOut())
+		await expect(policy.execute(timedOutCall.call, context)).rejects.toThrow('Request timed out')
+		expect(timedOutCall.calls()).toBe(1)
+	})
+
+	it('should abort calls still running at the deadline', async () => {
+		const policy = new RetryPolicy({ deadline: 10, maxRetries: 0 })
+		const hanging = (abortSignal?: AbortSignal) =>
+			new Promise((resolve, reject) =>
+				abortSignal?.addEventListener('abort', () => reject(new Error('aborted')))
+			)
+
+		await expect(policy.execute(hanging, { operation: 'scan' })).rejects.toThrow(TimeoutError)
+	})
+
+	it('should treat a deadline of 0 as a deadline', async () => {
+		const policy = new RetryPolicy({ deadline: 0, maxRetries: 0 })
+		const hanging = (abortSignal?: AbortSignal) =>
+			new Promise((resolve, reject) =>
+				abortSignal?.addEventListener('abort', () => reject(new Error('aborted')))
+			)
+
+		await expect(policy.execute(hanging)).rejects.toThrow(TimeoutError)
+	})
+
+	it('should open the circuit after sustained throttling', async () => {
+		const policy = new RetryPolicy({
+			...options(),
+			maxRetries: 0,
+			circuitBreaker: { threshold: 3, cooldown: 1000 }
+		})
+		const states: CircuitEvent[] = []
+		policy.on('circuit', (event) => states.push(event))
+		const { call } = failing(throttled(), throttled(), throttled(), throttled())
+
+		for (let i = 0; i < 3; i++) {
+			await expect(policy.execute(call)).rejects.toThrow('Throughput exceeded')
+		}
+		expect(policy.circuit).toBe('open')
+		await expect(policy.execute(call)).rejects.toThrow(CircuitOpenError)
+
+		// a throttled trial call opens it again
+		time += 1000
+		await expect(policy.execute(call)).rejects.toThrow('Throughput exceeded')
+		time += 1000
+		await expect(policy.execute(call)).resolves.toBe('ok')
+
+		expect(policy.circuit).toBe('closed')
+		expect(states.map((x) => x.state)).toEqual(['open', 'halfOpen', 'open', 'halfOpen', 'closed'])
+		expect(states[0].throttled).toBe(3)
+	})
+
+	it('should only send one trial call while the circuit is half-open', async () => {
+		const policy = new RetryPolicy({
+			...options(),
+			maxRetries: 0,
+			circuitBreaker: { threshold: 1, cooldown: 1000 }
+		})
+		await expect(policy.execute(failing(throttled()).call)).rejects.toThrow('Throughput exceeded')
+		time += 1000
+		let settle: (value: string) => void = () => undefined
+		const trial = policy.execute(() => new Promise<string>((resolve) => (settle = resolve)))
+
+		expect(policy.circuit).toBe('halfOpen')
+		await expect(policy.execute(async () => 'ok')).rejects.toThrow(CircuitOpenError)
+		settle('ok')
+		await expect(trial).resolves.toBe('ok')
+		expect(policy.circuit).toBe('closed')
+		await expect(policy.execute(async () => 'ok')).resolves.toBe('ok')
+	})
+
+	it('should never open a disabled circuit', async () => {
+		const policy = new RetryPolicy({ ...options(), maxRetries: 0, circuitBreaker: false })
+		const { call } = failing(...Array.from({ length: 20 }, throttled))
+
+		for (let i = 0; i < 20; i++) {
+			await expect(policy.execute(call)).rejects.toThrow('Throughput exceeded')
+		}
+		expect(policy.circuit).toBe('closed')
+	})
+
+	it('should classify errors by their class', () => {
+		const reason = (code: string) => ({ index: 0, type: 'put' as const, tableName: 'users', code })
+
+		expect(isRetryable(new RateLimitError('slow down'))).toBe(true)
+		expect(isRetryable(new TimeoutError('timed out'))).toBe(true)
+		expect(isRetryable(new ValidationError('invalid'))).toBe(false)
+		expect(isRetryable(new CircuitOpenError('open'))).toBe(false)
+		expect(isRetryable(new TransactionCanceledError([reason('TransactionConflict')]))).toBe(true)
+		expect(isRetryable(new TransactionCanceledError([reason('ConditionalCheckFailed')]))).toBe(
+			false
+		)
+		expect(isRetryable(new TransactionCanceledError([reason('None')]))).toBe(false)
+	})
+
+	it('should retry calls of clients configured with a policy', async () => {
+		ddbMock
+			.on(QueryCommand)
+			.rejectsOnce(throttled())
+			.resolves({ Items: [{ id: '1' }] })
+		const dynamoDb = new DynamoDb({ region: 'us-east-1', retry: options() })
+
+		await expect(dynamoDb.query({ tableName: 'users', params: { id: '1' } })).resolves.toEqual([
+			{ id: '1' }
+		])
+		expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(2)
+	})
+
+	it('should not retry creates that may have been applied', async () => {
+		ddbMock
+			.on(PutCommand)
+			.rejectsOnce(timedOut())
+			.rejects(new ConditionalCheckFailedException({ message: 'failed', $metadata: {} }))
+		const dynamoDb = new DynamoDb({ region: 'us-east-1', retry: options() })
+
+		await expect(
+			dynamoDb.create({ tableName: 'users', key: { id: '1' } as any, params: { name: 'Jane' } })
+		).rejects.toThrow(TimeoutError)
+		expect(ddbMock.commandCalls(PutCommand)).toHaveLength(1)
+	})
+
+	it('should retry the pages of paginated queries', async () => {
+		ddbMock
+			.on(QueryCommand)
+			.rejectsOnce(throttled())
+			.resolves({ Items: [{ id: '1' }] })
+		const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+		const pages = paginateQuery(
+			client,
+			{ tableName: 'users', params: { id: '1' } },
+			{ retry: options() }
+		)
+
+		const items: unknown[] = []
+		for await (const item of pages.items()) {
+			items.push(item)
+		}
+		expect(items).toEqual([{ id: '1' }])
+		expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(2)
+	})
+
+	it('should retry batch writes and transactional gets through a shared policy', async () => {
+		ddbMock.on(BatchWriteCommand).rejectsOnce(throttled()).resolves({})
+		ddbMock
+			.on(TransactGetCommand)
+			.rejectsOnce(throttled())
+			.resolves({ Responses: [{ Item: { id: '1' } }] })
+		const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+		const policy = new RetryPolicy(options())
+		const retries: RetryEvent[] = []
+		policy.on('retry', (event) => retries.push(event))
+
+		const bulk = new Bulkify()
+		bulk.add('users', { id: '1' })
+		await expect(bulk.execute(client, { retry: policy })).resolves.toMatchObject({ written: 1 })
+		const get = new TransactGet({ retry: policy }).get('user', {
+			tableName: 'users',
+			key: { id: '1' } as any
+		})
+		await expect(get.execute(client)).resolves.toEqual({ user: { id: '1' } })
+
+		expect(retries.map((x) => x.operation)).toEqual(['batchWrite', 'transactGet'])
+	})
+})
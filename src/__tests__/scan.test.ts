@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb'
+import { parallelScan } from '../utils/scan'
+import { ValidationError } from '../errors'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const collect = async (iterable: AsyncIterable<Record<string, unknown>>) => {
+	const items: Record<string, unknown>[] = []
+	for await (const item of iterable) {
+		items.push(item)
+	}
+	return items
+}
+
+describe('parallelScan', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	it('should stream the items of every segment and page', async () => {
+		ddbMock
+			.on(ScanCommand, { Segment: 0 })
+			.resolvesOnce({ Items: [{ id: 1 }], LastEvaluatedKey: { id: 1 } })
+			.resolvesOnce({ Items: [{ id: 2 }] })
+			.on(ScanCommand, { Segment: 1 })
+			.resolves({ Items: [{ id: 3 }] })
+
+		const scan = parallelScan(client, { tableName: 'test' }, { totalSegments: 2 })
+		const items = await collect(scan)
+
+		expect(items.map((x) => x.id).sort()).toEqual([1, 2, 3])
+		expect(scan.done).toBe(true)
+		const calls = ddbMock.commandCalls(ScanCommand).map((x) => x.args[0].input)
+		expect(calls).toHaveLength(3)
+		expect(calls.every((x) => x.TotalSegments === 2)).toBe(true)
+		expect(calls.find((x) => x.ExclusiveStartKey)).toMatchObject({
+			Segment: 0,
+			ExclusiveStartKey: { id: 1 }
+		})
+	})
+
+	it('should only scan as many segments at once as the concurrency allows', async () => {
+		let inFlight = 0
+		let maxInFlight = 0
+		ddbMock.on(ScanCommand).callsFake(async () => {
+			inFlight++
+			maxInFlight = Math.max(maxInFlight, inFlight)
+			await new Promise((resolve) => setTimeout(resolve, 5))
+			inFlight--
+			return { Items: [{ id: 1 }] }
+		})
+
+		const items = await collect(
+			parallelScan(client, { tableName: 'test' }, { totalSegments: 4, concurrency: 2 })
+		)
+
+		expect(items).toHaveLength(4)
+		expect(maxInFlight).toBe(2)
+	})
+
+	it('should abort the scans in flight when the consumer stops', async () => {
+		ddbMock
+			.on(ScanCommand, { Segment: 0 })
+			.resolves({ Items: [{ id: 1 }] })
+			.on(ScanCommand, { Segment: 1 })
+			.callsFake(() => new Promise(() => undefined))
+
+		for await (const item of parallelScan(client, { tableName: 'test' }, { totalSegments: 2 })) {
+			expect(item).toEqual({ id: 1 })
+			break
+		}
+
+		const [pending] = ddbMock.commandCalls(ScanCommand, { Segment: 1 })
+		expect((pending.args as any[])[1].abortSignal.aborted).toBe(true)
+	})
+
+	it('should checkpoint progress and resume from it', async () => {
+		ddbMock
+			.on(ScanCommand, { Segment: 0 })
+			.resolvesOnce({ Items: [{ id: 1 }], LastEvaluatedKey: { id: 1 } })
+			.resolvesOnce({ Items: [{ id: 2 }] })
+
+		const scan = parallelScan(client, { tableName: 'test' }, { totalSegments: 1 })
+		for await (const item of scan) {
+			if (item.id === 2) break
+		}
+		expect(scan.done).toBe(false)
+		// only the first page was fully consumed before the break
+		expect(scan.checkpoint.segments).toEqual([
+			{ segment: 0, lastEvaluatedKey: { id: 1 }, done: false }
+		])
+
+		ddbMock.reset()
+		ddbMock.on(ScanCommand, { ExclusiveStartKey: { id: 1 } }).resolves({ Items: [{ id: 2 }] })
+		const resumed = parallelScan(
+			client,
+			{ tableName: 'test' },
+			{ totalSegments: 1, checkpoint: scan.checkpoint }
+		)
+		expect(await collect(resumed)).toEqual([{ id: 2 }])
+		expect(resumed.done).toBe(true)
+	})
+
+	it('should propagate scan failures', async () => {
+		ddbMock.on(ScanCommand).rejects(new Error('boom'))
+
+		await expect(
+			collect(parallelScan(client, { tableName: 'test' }, { totalSegments: 2 }))
+		).rejects.toThrow('boom')
+	})
+
+	it('should reject a checkpoint taken with a different segment count', () => {
+		expect(() =>
+			parallelScan(
+				client,
+				{ tableName: 'test' },
+				{ totalSegments: 2, checkpoint: { totalSegments: 4, segments: [] } }
+			)
+		).toThrow(ValidationError)
+	})
+})
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import {
+	DeleteCommand,
+	DynamoDBDocumentClient,
+	GetCommand,
+	QueryCommand,
+	UpdateCommand
+} from '@aws-sdk/lib-dynamodb'
+import { buildQueryInput, buildRestoreInput, buildScanInput, buildSoftDeleteInput } from '../utils'
+import { isDeleted } from '../utils/tombstone'
+import { DynamoDb } from '../dynamodb'
+import { defineEntity } from '../entity'
+import { ItemNotFoundError, ValidationError } from '../errors'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const NOW = Date.UTC(2024, 2, 20, 10, 0, 0)
+const softDelete = {
+	clock: () => NOW,
+	ttl: { expiresIn: '30d' }
+}
+
+const conditionalCheckFailed = (item?: Record<string, any>) =>
+	new ConditionalCheckFailedException({ message: 'failed', $metadata: {}, Item: item })
+
+describe('soft delete', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	describe('builders', () => {
+		it('should turn deletes into updates marking live items', () => {
+			const result = buildSoftDeleteInput({
+				tableName: 'users',
+				key: { id: '1' } as any,
+				deletedBy: 'admin',
+				softDelete
+			})
+
+			expect(result).toMatchObject({
+				TableName: 'users',
+				Key: { id: '1' },
+				UpdateExpression: 'SET #deletedAt = :d0, #deletedBy = :d1, #ttl = :t2',
+				ConditionExpression: 'attribute_exists(#id) AND attribute_not_exists(#deletedAt)',
+				ExpressionAttributeValues: {
+					':d0': NOW,
+					':d1': 'admin',
+					':t2': NOW / 1000 + 30 * 86400
+				}
+			})
+		})
+
+		it('should use the configured attributes and format', () => {
+			const result = buildSoftDeleteInput({
+				tableName: 'users',
+				key: { id: '1' } as any,
+				softDelete: { deletedAt: 'removedAt', format: 'iso', clock: () => NOW }
+			})
+
+			expect(result.UpdateExpression).toBe('SET #removedAt = :r0')
+			expect(result.ExpressionAttributeValues).toEqual({ ':r0': '2024-03-20T10:00:00.000Z' })
+			expect(() => buildSoftDeleteInput({ tableName: 'users', softDelete: {} })).toThrow(
+				ValidationError
+			)
+		})
+
+		it('should restore tombstones', () => {
+			const result = buildRestoreInput({ tableName: 'users', key: { id: '1' } as any, softDelete })
+
+			expect(result).toMatchObject({
+				UpdateExpression: 'REMOVE #deletedAt, #deletedBy, #ttl',
+				ConditionExpression: 'attribute_exists(#deletedAt)'
+			})
+		})
+
+		it('should hide tombstones from queries and scans unless included', () => {
+			const query = buildQueryInput({ tableName: 'users', params: { orgId: 'o1' }, softDelete })
+			const scan = buildScanInput({ tableName: 'users', softDelete })
+			const all = buildScanInput({ tableName: 'users', softDelete, includeDeleted: true })
+
+			expect(query.FilterExpression).toBe('attribute_not_exists(#deletedAt)')
+			expect(scan.FilterExpression).toBe('attribute_not_exists(#deletedAt)')
+			expect(all.FilterExpression).toBeUndefined()
+			expect(isDeleted({ id: '1', deletedAt: NOW })).toBe(true)
+		})
+	})
+
+	describe('DynamoDb', () => {
+		const dynamoDb = new DynamoDb({ region: 'us-east-1', softDelete })
+		const key = { id: '1' } as any
+
+		it('should mark items as deleted instead of deleting them', async () => {
+			ddbMock.on(UpdateCommand).resolves({})
+
+			await expect(
+				dynamoDb.delete({ tableName: 'users', key, deletedBy: 'admin' })
+			).resolves.toEqual({ id: '1', status: 'deleted' })
+			expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(0)
+			expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.UpdateExpression).toBe(
+				'SET #deletedAt = :d0, #deletedBy = :d1, #ttl = :t2'
+			)
+		})
+
+		it('should treat deletes of tombstones as no-ops', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed({ deletedAt: { N: '1' } }))
+
+			await expect(dynamoDb.delete({ tableName: 'users', key })).resolves.toEqual({
+				id: '1',
+				status: 'deleted'
+			})
+		})
+
+		it('should hide tombstones from reads unless included', async () => {
+			ddbMock.on(GetCommand).resolves({ Item: { id: '1', deletedAt: NOW } })
+
+			await expect(dynamoDb.findRecord({ tableName: 'users', key })).rejects.toThrow(
+				ItemNotFoundError
+			)
+			await expect(
+				dynamoDb.findRecord({ tableName: 'users', key, includeDeleted: true })
+			).resolves.toEqual({ id: '1', deletedAt: NOW })
+		})
+
+		it('should not update tombstones', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed({ deletedAt: { N: '1' } }))
+
+			await expect(
+				dynamoDb.update({ tableName: 'users', key, params: { name: 'Jane' } })
+			).rejects.toThrow(ItemNotFoundError)
+			expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ConditionExpression).toBe(
+				'(attribute_exists(#id)) AND attribute_not_exists(#deletedAt)'
+			)
+		})
+
+		it('should restore tombstones', async () => {
+			ddbMock.on(UpdateCommand).resolves({ Attributes: { id: '1' } })
+
+			await expect(dynamoDb.restore({ tableName: 'users', key })).resolves.toEqual({ id: '1' })
+
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed())
+			await expect(dynamoDb.restore({ tableName: 'users', key })).rejects.toThrow(ItemNotFoundError)
+			await expect(
+				new DynamoDb({ region: 'us-east-1' }).restore({ tableName: 'users', key })
+			).rejects.toThrow(ValidationError)
+		})
+	})
+
+	describe('Entity', () => {
+		const users = defineEntity<{ id: string; name?: string }>(
+			DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' })),
+			{ tableName: 'users', key: { partitionKey: 'id' }, attributes: {}, softDelete }
+		)
+
+		it('should soft delete, hide and restore items', async () => {
+			ddbMock.on(UpdateCommand).resolves({ Attributes: { id: '1' } })
+			ddbMock.on(GetCommand).resolves({ Item: { id: '1', deletedAt: NOW } })
+			ddbMock.on(QueryCommand).resolves({ Items: [] })
+
+			await users.delete({ id: '1' }, { deletedBy: 'admin' })
+			const hidden = await users.get({ id: '1' })
+			const tombstone = await users.get({ id: '1' }, { includeDeleted: true })
+			await users.query('1')
+			await users.query('1', { includeDeleted: true })
+			await users.restore({ id: '1' })
+
+			expect(hidden).toBeUndefined()
+			expect(tombstone).toEqual({ id: '1', deletedAt: NOW })
+			const [live, all] = ddbMock.commandCalls(QueryCommand).map((x) => x.args[0].input)
+			expect(live.FilterExpression).toBe('attribute_not_exists(#deletedAt)')
+			expect(all.FilterExpression).toBeUndefined()
+			const [deleted, restored] = ddbMock.commandCalls(UpdateCommand).map((x) => x.args[0].input)
+			expect(deleted.ExpressionAttributeValues).toMatchObject({ ':d1': 'admin' })
+			expect(restored.UpdateExpression).toBe('REMOVE #deletedAt, #deletedBy, #ttl')
+		})
+	})
+})
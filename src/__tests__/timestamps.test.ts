@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb'
+import { buildPutInput, buildUpdateInput } from '../utils'
+import { formatTimestamp, timestampAttributes } from '../utils/timestamp'
+import { DynamoDb } from '../dynamodb'
+import { defineEntity } from '../entity'
+import { ValidationError } from '../errors'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const NOW = Date.UTC(2024, 2, 20, 10, 0, 0)
+const clock = () => NOW
+
+describe('timestamps', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	it('should format timestamps for storage', () => {
+		expect(formatTimestamp(NOW)).toBe(NOW)
+		expect(formatTimestamp(NOW + 999, 'unix')).toBe(NOW / 1000)
+		expect(formatTimestamp(NOW, 'iso')).toBe('2024-03-20T10:00:00.000Z')
+		expect(() => formatTimestamp(NaN)).toThrow(ValidationError)
+	})
+
+	it('should resolve attribute names and the clock time', () => {
+		expect(timestampAttributes({ clock })).toEqual({
+			createdAt: 'createdAt',
+			updatedAt: 'updatedAt',
+			now: NOW
+		})
+		expect(timestampAttributes({ createdAt: 'created', format: 'iso', clock })).toEqual({
+			createdAt: 'created',
+			updatedAt: 'updatedAt',
+			now: '2024-03-20T10:00:00.000Z'
+		})
+	})
+
+	it('should stamp both times on put but keep an existing creation time', () => {
+		const created = buildPutInput({
+			tableName: 'test',
+			params: { id: '1' },
+			timestamps: { clock }
+		})
+		const rewritten = buildPutInput({
+			tableName: 'test',
+			params: { id: '1', createdAt: 1, updatedAt: 2 },
+			timestamps: { clock }
+		})
+
+		expect(created.Item).toEqual({ id: '1', createdAt: NOW, updatedAt: NOW })
+		expect(rewritten.Item).toEqual({ id: '1', createdAt: 1, updatedAt: NOW })
+	})
+
+	it('should only stamp the creation time of new items on update', () => {
+		const result = buildUpdateInput({
+			tableName: 'test',
+			key: { id: '1' },
+			params: { name: 'Jane' },
+			timestamps: { format: 'unix', updatedAt: 'modified', clock }
+		})
+
+		expect(result.UpdateExpression).toBe(
+			'SET #name = :n0, #modified = :m1, #createdAt = if_not_exists(#createdAt, :c2)'
+		)
+		expect(result.ExpressionAttributeValues).toEqual({
+			':n0': 'Jane',
+			':m1': NOW / 1000,
+			':c2': NOW / 1000
+		})
+	})
+
+	it('should stamp writes of clients and entities', async () => {
+		ddbMock.on(PutCommand).resolves({})
+		ddbMock.on(UpdateCommand).resolves({ Attributes: {} })
+		const dynamoDb = new DynamoDb({ region: 'us-east-1', timestamps: { format: 'iso', clock } })
+		const users = defineEntity<{ id: string; name?: string }>(
+			DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' })),
+			{ tableName: 'users', key: { partitionKey: 'id' }, attributes: {}, timestamps: { clock } }
+		)
+
+		const created = await dynamoDb.create({ tableName: 'users', key: { id: '1' } as any })
+		const put = await users.put({ id: '2' })
+		await users.update({ id: '2' }, { name: 'Ann' })
+
+		expect(created).toEqual({
+			id: '1',
+			createdAt: '2024-03-20T10:00:00.000Z',
+			updatedAt: '2024-03-20T10:00:00.000Z'
+		})
+		expect(put).toEqual({ id: '2', createdAt: NOW, updatedAt: NOW })
+		expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.UpdateExpression).toBe(
+			'SET #name = :n0, #updatedAt = :u1, #createdAt = if_not_exists(#createdAt, :c2)'
+		)
+	})
+})
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, TransactGetCommand } from '@aws-sdk/lib-dynamodb'
+import TransactGet from '../TransactGet'
+import { RateLimitError, TransactionCanceledError, ValidationError } from '../errors'
+
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+interface User extends Record<string, unknown> {
+	id: string
+	name: string
+}
+
+describe('TransactGet', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	it('should build gets with projections', () => {
+		const transaction = new TransactGet()
+			.get('user', { tableName: 'users', key: { id: 'u1' } as any })
+			.get('order', {
+				tableName: 'orders',
+				key: { id: 'o1' } as any,
+				projection: ['total', 'status']
+			})
+
+		expect(transaction.input).toEqual({
+			TransactItems: [
+				{ Get: { TableName: 'users', Key: { id: 'u1' } } },
+				{
+					Get: {
+						TableName: 'orders',
+						Key: { id: 'o1' },
+						ProjectionExpression: '#total, #status',
+						ExpressionAttributeNames: { '#total': 'total', '#status': 'status' }
+					}
+				}
+			]
+		})
+	})
+
+	it('should map responses to named slots', async () => {
+		ddbMock.on(TransactGetCommand).resolves({
+			Responses: [{ Item: { id: 'u1', name: 'Ann' } }, {}]
+		})
+		const transaction = new TransactGet()
+			.get<'user', User>('user', { tableName: 'users', key: { id: 'u1' } as any })
+			.get('order', { tableName: 'orders', key: { id: 'o1' } as any })
+
+		const { user, order } = await transaction.execute(client)
+
+		expect(user?.name).toBe('Ann')
+		expect(order).toBeNull()
+		expect(ddbMock.commandCalls(TransactGetCommand)[0].args[0].input).toEqual(transaction.input)
+	})
+
+	it('should pair cancellation reasons with the gets', async () => {
+		ddbMock.on(TransactGetCommand).rejects(
+			new TransactionCanceledException({
+				message: 'Transaction cancelled',
+				$metadata: { requestId: 'req-1' },
+				CancellationReasons: [{ Code: 'None' }, { Code: 'TransactionConflict' }]
+			})
+		)
+		const transaction = new TransactGet()
+			.get('user', { tableName: 'users', key: { id: 'u1' } as any })
+			.get('order', { tableName: 'orders', key: { id: 'o1' } as any })
+
+		const error = (await transaction.execute(client).catch((e) => e)) as TransactionCanceledError
+
+		expect(error).toBeInstanceOf(TransactionCanceledError)
+		expect(error.failures).toEqual([
+			{ index: 1, type: 'get', tableName: 'orders', key: { id: 'o1' }, code: 'TransactionConflict' }
+		])
+		expect(error).toMatchObject({ operation: 'transactGet', requestId: 'req-1' })
+		expect(
+			transaction.failure({ name: 'ThrottlingException', message: 'slow down' })
+		).toBeInstanceOf(RateLimitError)
+	})
+
+	it('should reject a slot used twice', () => {
+		const transaction = new TransactGet().get('user', {
+			tableName: 'users',
+			key: { id: 'u1' } as any
+		})
+
+		expect(() => transaction.get('user', { tableName: 'users', key: { id: 'u2' } as any })).toThrow(
+			ValidationError
+		)
+	})
+
+	it('should enforce the 100 item limit', () => {
+		const transaction = new TransactGet()
+		for (let i = 0; i < 100; i++) {
+			transaction.get(`item${i}`, { tableName: 'items', key: { id: `${i}` } as any })
+		}
+
+		expect(() => transaction.get('extra', { tableName: 'items', key: { id: 'x' } as any })).toThrow(
+			ValidationError
+		)
+	})
+
+	it('should reject an empty transaction and missing keys', () => {
+		expect(() => new TransactGet().input).toThrow(ValidationError)
+		expect(() => new TransactGet().get('user', { tableName: 'users' })).toThrow(ValidationError)
+	})
+})
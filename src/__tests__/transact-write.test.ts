@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb'
+import TransactWrite from '../TransactWrite'
+import { RateLimitError, TransactionCanceledError, ValidationError } from '../errors'
+import { attributeExists, attributeNotExists, eq } from '../utils/expression'
+
+describe('TransactWrite', () => {
+	it('should build every operation type with the builder request shapes', () => {
+		const transaction = new TransactWrite({ clientRequestToken: 'order-1' })
+		transaction.put({
+			tableName: 'orders',
+			params: { id: '1', total: 10 },
+			condition: attributeNotExists('id')
+		})
+		transaction.update({ tableName: 'users', key: { id: 'u1' }, add: { orders: 1 } })
+		transaction.delete({ tableName: 'carts', key: { id: 'c1' } as any })
+		transaction.conditionCheck({
+			tableName: 'products',
+			key: { id: 'p1' },
+			condition: eq('status', 'active')
+		})
+
+		expect(transaction.input).toEqual({
+			ClientRequestToken: 'order-1',
+			TransactItems: [
+				{
+					Put: {
+						TableName: 'orders',
+						Item: { id: '1', total: 10 },
+						ConditionExpression: 'attribute_not_exists(#id)',
+						ExpressionAttributeNames: { '#id': 'id' }
+					}
+				},
+				{
+					Update: {
+						TableName: 'users',
+						Key: { id: 'u1' },
+						UpdateExpression: 'ADD #orders :v0',
+						ExpressionAttributeNames: { '#orders': 'orders' },
+						ExpressionAttributeValues: { ':v0': 1 }
+					}
+				},
+				{ Delete: { TableName: 'carts', Key: { id: 'c1' } } },
+				{
+					ConditionCheck: {
+						TableName: 'products',
+						Key: { id: 'p1' },
+						ConditionExpression: '#status = :v0',
+						ExpressionAttributeNames: { '#status': 'status' },
+						ExpressionAttributeValues: { ':v0': 'active' }
+					}
+				}
+			]
+		})
+	})
+
+	it('should omit the client request token when not set', () => {
+		const transaction = new TransactWrite()
+		transaction.delete({ tableName: 'carts', key: { id: 'c1' } as any })
+
+		expect(transaction.input.ClientRequestToken).toBeUndefined()
+	})
+
+	it('should reject invalid client request tokens', () => {
+		expect(() => new TransactWrite({ clientRequestToken: '' })).toThrow(ValidationError)
+		expect(() => new TransactWrite({ clientRequestToken: 'x'.repeat(37) })).toThrow(ValidationError)
+	})
+
+	it('should reject an empty transaction', () => {
+		expect(() => new TransactWrite().input).toThrow(ValidationError)
+	})
+
+	it('should reject a condition check without a condition', () => {
+		const transaction = new TransactWrite()
+
+		expect(() =>
+			transaction.conditionCheck({ tableName: 'products', key: { id: 'p1' }, condition: undefined })
+		).toThrow(ValidationError)
+	})
+
+	it('should enforce the 100 operation limit', () => {
+		const transaction = new TransactWrite()
+		for (let i = 0; i < 100; i++) {
+			transaction.delete({ tableName: 'carts', key: { id: `${i}` } as any })
+		}
+
+		expect(() => transaction.delete({ tableName: 'carts', key: { id: '100' } as any })).toThrow(
+			ValidationError
+		)
+	})
+
+	it('should enforce the 4 MB size limit', () => {
+		const transaction = new TransactWrite()
+		const data = 'x'.repeat(390 * 1024)
+		for (let i = 0; i < 10; i++) {
+			transaction.put({ tableName: 'files', params: { id: `${i}`, data } })
+		}
+
+		expect(() => transaction.put({ tableName: 'files', params: { id: '10', data } })).toThrow(
+			ValidationError
+		)
+	})
+
+	describe('same item', () => {
+		it('should reject two keyed operations on the same item', () => {
+			const transaction = new TransactWrite()
+			transaction.update({ tableName: 'users', key: { pk: 'a', sk: '1' }, add: { n: 1 } })
+
+			expect(() =>
+				transaction.conditionCheck({
+					tableName: 'users',
+					key: { sk: '1', pk: 'a' },
+					condition: attributeExists('pk')
+				})
+			).toThrow(ValidationError)
+		})
+
+		it('should match a put against a keyed operation', () => {
+			const transaction = new TransactWrite()
+			transaction.delete({ tableName: 'users', key: { id: 'u1' } as any })
+
+			expect(() =>
+				transaction.put({ tableName: 'users', params: { id: 'u1', name: 'Ann' } })
+			).toThrow(ValidationError)
+		})
+
+		it('should match puts using the configured key attributes', () => {
+			const transaction = new TransactWrite({ keys: { users: ['id'] } })
+			transaction.put({ tableName: 'users', params: { id: 'u1', name: 'Ann' } })
+
+			expect(() =>
+				transaction.put({ tableName: 'users', params: { id: 'u1', name: 'Bob' } })
+			).toThrow(ValidationError)
+		})
+
+		it('should match puts once another operation reveals the key attributes', () => {
+			const transaction = new TransactWrite()
+			transaction.put({ tableName: 'users', params: { id: 'u1', name: 'Ann' } })
+			transaction.put({ tableName: 'users', params: { id: 'u1', name: 'Bob' } })
+			transaction.delete({ tableName: 'users', key: { id: 'u2' } as any })
+
+			expect(() => transaction.input).toThrow(ValidationError)
+		})
+
+		it('should allow the same key in different tables', () => {
+			const transaction = new TransactWrite()
+			transaction.delete({ tableName: 'users', key: { id: '1' } as any })
+			transaction.delete({ tableName: 'carts', key: { id: '1' } as any })
+
+			expect(transaction.input.TransactItems).toHaveLength(2)
+		})
+	})
+
+	describe('cancellation', () => {
+		let ddbMock: ReturnType<typeof mockClient>
+
+		beforeEach(() => {
+			ddbMock = mockClient(DynamoDBDocumentClient)
+		})
+
+		afterEach(() => {
+			ddbMock.restore()
+		})
+
+		const canceled = () =>
+			new TransactionCanceledException({
+				message: 'Transaction cancelled',
+				$metadata: { requestId: 'req-1' },
+				CancellationReasons: [
+					{ Code: 'None' },
+					{
+						Code: 'ConditionalCheckFailed',
+						Message: 'The conditional request failed',
+						Item: { id: { S: 'u1' }, orders: { N: '3' } }
+					},
+					{ Code: 'None' }
+				]
+			})
+		const transaction = () => {
+			const result = new TransactWrite({ keys: { orders: ['id'] } })
+			result.put({ tableName: 'orders', params: { id: '1', total: 10 } })
+			result.update({ tableName: 'users', key: { id: 'u1' }, add: { orders: 1 } })
+			result.delete({ tableName: 'carts', key: { id: 'c1' } as any })
+			return result
+		}
+
+		it('should pair each cancellation reason with its operation', () => {
+			const error = transaction().failure(canceled()) as TransactionCanceledError
+
+			expect(error).toBeInstanceOf(TransactionCanceledError)
+			expect(error.reasons).toEqual([
+				{ index: 0, type: 'put', tableName: 'orders', key: { id: '1' }, code: 'None' },
+				{
+					index: 1,
+					type: 'update',
+					tableName: 'users',
+					key: { id: 'u1' },
+					code: 'ConditionalCheckFailed',
+					message: 'The conditional request failed',
+					item: { id: 'u1', orders: 3 }
+				},
+				{ index: 2, type: 'delete', tableName: 'carts', key: { id: 'c1' }, code: 'None' }
+			])
+			expect(error.failures.map((x) => x.index)).toEqual([1])
+			expect(error.has('ConditionalCheckFailed')).toBe(true)
+			expect(error.has('TransactionConflict')).toBe(false)
+			expect(error.message).toBe('Transaction canceled: ConditionalCheckFailed (update on users)')
+			expect(error).toMatchObject({ operation: 'transactWrite', requestId: 'req-1' })
+		})
+
+		it('should translate other failures', () => {
+			const error = transaction().failure({ name: 'ThrottlingException', message: 'slow down' })
+
+			expect(error).toBeInstanceOf(RateLimitError)
+		})
+
+		it('should throw cancellations from execute', async () => {
+			const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+			ddbMock.on(TransactWriteCommand).rejects(canceled())
+			const pending = transaction()
+
+			await expect(pending.execute(client)).rejects.toThrow(TransactionCanceledError)
+			expect(ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input).toEqual(pending.input)
+		})
+	})
+})
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb'
+import { buildPutInput, buildQueryInput, buildScanInput, buildUpdateInput } from '../utils'
+import { eq } from '../utils/expression'
+import { defineEntity } from '../entity'
+import { expiresAt, isExpired, notExpired, parseDuration, removeExpired } from '../utils/ttl'
+import { ValidationError } from '../errors'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const NOW = 1710928800
+const clock = () => NOW * 1000
+
+describe('ttl', () => {
+	it('should parse durations into seconds', () => {
+		expect(parseDuration('30d')).toBe(30 * 86400)
+		expect(parseDuration('12h')).toBe(12 * 3600)
+		expect(parseDuration('1d 12h')).toBe(36 * 3600)
+		expect(parseDuration('1w')).toBe(7 * 86400)
+		expect(parseDuration(90)).toBe(90)
+	})
+
+	it('should reject malformed durations', () => {
+		expect(() => parseDuration('30 days')).toThrow(ValidationError)
+		expect(() => parseDuration('h')).toThrow(ValidationError)
+		expect(() => parseDuration(-1)).toThrow(ValidationError)
+		expect(() => parseDuration(1.5)).toThrow(ValidationError)
+	})
+
+	it('should compute expiry in epoch seconds', () => {
+		expect(expiresAt('1h', { clock })).toBe(NOW + 3600)
+	})
+
+	it('should detect expired items', () => {
+		const items = [{ id: '1', ttl: NOW - 1 }, { id: '2', ttl: NOW + 1 }, { id: '3' }]
+
+		expect(isExpired(items[0], { clock })).toBe(true)
+		expect(isExpired({ expires: String(NOW - 1) }, { attribute: 'expires', clock })).toBe(false)
+		expect(removeExpired(items, { clock }).map((x) => x.id)).toEqual(['2', '3'])
+		expect(notExpired({ clock })).toEqual({
+			type: 'not',
+			condition: { type: 'comparison', operator: '<=', operand: 'ttl', value: NOW }
+		})
+	})
+
+	it('should set the TTL attribute on put and update', () => {
+		const put = buildPutInput({
+			tableName: 'sessions',
+			params: { id: 's1' },
+			ttl: { expiresIn: '30d', clock }
+		})
+		const update = buildUpdateInput({
+			tableName: 'sessions',
+			key: { id: 's1' },
+			params: { active: true },
+			ttl: { attribute: 'expiresAt', expiresIn: '12h', clock }
+		})
+
+		expect(put.Item).toEqual({ id: 's1', ttl: NOW + 30 * 86400 })
+		expect(update.UpdateExpression).toBe('SET #active = :a0, #expiresAt = :e1')
+		expect(update.ExpressionAttributeValues).toEqual({ ':a0': true, ':e1': NOW + 12 * 3600 })
+	})
+
+	it('should filter expired items out of queries and scans', () => {
+		const query = buildQueryInput({
+			tableName: 'sessions',
+			params: { userId: 'u1' },
+			filter: eq('active', true),
+			excludeExpired: { clock }
+		})
+		const scan = buildScanInput({ tableName: 'sessions', excludeExpired: { clock } })
+
+		expect(query.FilterExpression).toBe('(#active = :v0) and (NOT #ttl <= :v1)')
+		expect(query.ExpressionAttributeValues).toEqual({ ':u': 'u1', ':v0': true, ':v1': NOW })
+		expect(scan).toMatchObject({
+			FilterExpression: 'NOT #ttl <= :v0',
+			ExpressionAttributeNames: { '#ttl': 'ttl' },
+			ExpressionAttributeValues: { ':v0': NOW }
+		})
+	})
+
+	describe('Entity', () => {
+		const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+		const sessions = defineEntity<{ id: string; active?: boolean }>(client, {
+			tableName: 'sessions',
+			key: { partitionKey: 'id' },
+			attributes: { id: { type: 'S', required: true }, active: { type: 'BOOL' } },
+			ttl: { expiresIn: '1d', clock }
+		})
+
+		beforeEach(() => {
+			ddbMock.reset()
+		})
+
+		it('should set the expiry of the definition on put and update', async () => {
+			ddbMock.on(PutCommand).resolves({})
+			ddbMock.on(UpdateCommand).resolves({ Attributes: {} })
+
+			await sessions.put({ id: 's1' })
+			await sessions.update({ id: 's1' }, { active: true })
+
+			expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item).toEqual({
+				id: 's1',
+				ttl: NOW + 86400
+			})
+			expect(
+				ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ExpressionAttributeValues
+			).toEqual({ ':a0': true, ':t1': NOW + 86400 })
+		})
+
+		it('should prefer the expiry of the write', async () => {
+			ddbMock.on(PutCommand).resolves({})
+
+			const item = await sessions.put({ id: 's1' }, { ttl: { expiresIn: '1h', clock } })
+
+			expect(item).toEqual({ id: 's1', ttl: NOW + 3600 })
+		})
+	})
+})
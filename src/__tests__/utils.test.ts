@@ -18,6 +18,8 @@ import type {
 	Key
 } from '../types'
 import { AttributeValue } from '@aws-sdk/client-dynamodb'
+import { beginsWith, between, gte, ifNotExists, listAppend, ne } from '../utils/expression'
+import { ValidationError } from '../errors'
 
 describe('buildPutInput', () => {
 	test('should return PutItemInput with correct properties', () => {
@@ -122,12 +124,111 @@ describe('buildScanInput', () => {
 				'#tags': 'tags'
 			},
 			ExpressionAttributeValues: {
-				':t0': { S: 'tag1' }
+				':v0': 'tag1',
+				':v1': 'tag2'
 			},
-			FilterExpression: 'contains(#tags, :t0)'
+			FilterExpression: '(contains(#tags, :v0) And contains(#tags, :v1))'
 		})
 	})
 
+	test('should join array contains checks with the filter expression context', () => {
+		const result = buildScanInput({
+			tableName: 'test',
+			params: { tags: ['a', 'b'], name: 'Jane' },
+			options: { filterExpressionContext: 'Or' }
+		})
+
+		expect(result.FilterExpression).toBe(
+			'(contains(#tags, :v0) Or contains(#tags, :v1)) Or #name = :n1'
+		)
+	})
+
+	test('should filter on falsy values', () => {
+		const result = buildScanInput({
+			tableName: 'test',
+			params: { count: 0, active: false, note: '' }
+		})
+
+		expect(result.FilterExpression).toBe('#count = :c0 And #active = :a1 And #note = :n2')
+		expect(result.ExpressionAttributeValues).toEqual({ ':c0': 0, ':a1': false, ':n2': '' })
+	})
+
+	test('should treat object values as operator descriptors', () => {
+		const result = buildScanInput({
+			tableName: 'test',
+			params: {
+				age: { gt: 5 },
+				score: { between: [1, 10] },
+				status: { in: ['open', 'closed'] },
+				deletedAt: { exists: false },
+				name: { beginsWith: 'J', ne: 'Jim' }
+			}
+		})
+
+		expect(result.FilterExpression).toBe(
+			'#age > :v0 And #score BETWEEN :v1 AND :v2 And #status IN (:v3, :v4) And ' +
+				'attribute_not_exists(#deletedAt) And (begins_with(#name, :v5) AND #name <> :v6)'
+		)
+		expect(result.ExpressionAttributeValues).toEqual({
+			':v0': 5,
+			':v1': 1,
+			':v2': 10,
+			':v3': 'open',
+			':v4': 'closed',
+			':v5': 'J',
+			':v6': 'Jim'
+		})
+	})
+
+	test('should not reuse a placeholder already taken by a condition', () => {
+		const result = buildScanInput({
+			tableName: 'test',
+			params: { score: { between: [1, 10] }, views: 3 }
+		})
+
+		expect(result.FilterExpression).toBe('#score BETWEEN :v0 AND :v1 And #views = :v2')
+		expect(result.ExpressionAttributeValues).toEqual({ ':v0': 1, ':v1': 10, ':v2': 3 })
+	})
+
+	test('should reject unsupported operators', () => {
+		expect(() => buildScanInput({ tableName: 'test', params: { age: { over: 5 } } })).toThrow(
+			ValidationError
+		)
+	})
+
+	test('should reject in operators without a list of values', () => {
+		const scan = (values: unknown) => () =>
+			buildScanInput({ tableName: 'test', params: { status: { in: values } } })
+
+		expect(scan('abc')).toThrow('in on status requires a list of values')
+		expect(scan(5)).toThrow(ValidationError)
+		expect(scan([])).toThrow(ValidationError)
+	})
+
+	test('should omit the values map for valueless descriptors', () => {
+		const result = buildScanInput({ tableName: 'test', params: { deletedAt: { exists: false } } })
+
+		expect(result.FilterExpression).toBe('attribute_not_exists(#deletedAt)')
+		expect(result.ExpressionAttributeNames).toEqual({ '#deletedAt': 'deletedAt' })
+		expect(result).not.toHaveProperty('ExpressionAttributeValues')
+	})
+
+	test('should not name attributes of undefined params', () => {
+		const result = buildScanInput({ tableName: 'test', params: { name: 'Jane', age: undefined } })
+
+		expect(result.FilterExpression).toBe('#name = :n0')
+		expect(result.ExpressionAttributeNames).toEqual({ '#name': 'name' })
+		expect(result.ExpressionAttributeValues).toEqual({ ':n0': 'Jane' })
+	})
+
+	test('should omit both maps when every param is undefined', () => {
+		const result = buildScanInput({ tableName: 'test', params: { age: undefined } })
+
+		expect(result).not.toHaveProperty('FilterExpression')
+		expect(result).not.toHaveProperty('ExpressionAttributeNames')
+		expect(result).not.toHaveProperty('ExpressionAttributeValues')
+	})
+
 	test('should handle projection expressions', () => {
 		const request: ScanInputRequest = {
 			tableName: 'test',
@@ -139,7 +240,7 @@ describe('buildScanInput', () => {
 		expect(result).toEqual({
 			TableName: 'test',
 			Limit: 1000,
-			Select: 'ALL_ATTRIBUTES',
+			Select: 'SPECIFIC_ATTRIBUTES',
 			ProjectionExpression: '#name, #email',
 			ExpressionAttributeNames: {
 				'#name': 'name',
@@ -218,6 +319,72 @@ describe('buildUpdateInput', () => {
 
 		expect(result).toEqual(expected)
 	})
+
+	test('should combine SET, REMOVE, ADD and DELETE clauses', () => {
+		const result = buildUpdateInput({
+			tableName: 'test',
+			key: { id: '123' },
+			params: { name: 'Jane' },
+			remove: ['nickname'],
+			add: { views: 1, tags: new Set(['new']) },
+			delete: { labels: new Set(['old']) }
+		})
+
+		expect(result.UpdateExpression).toBe(
+			'SET #name = :n0 REMOVE #nickname ADD #views :v0, #tags :v1 DELETE #labels :v2'
+		)
+		expect(result.ExpressionAttributeNames).toEqual({
+			'#name': 'name',
+			'#nickname': 'nickname',
+			'#views': 'views',
+			'#tags': 'tags',
+			'#labels': 'labels'
+		})
+		expect(result.ExpressionAttributeValues).toEqual({
+			':n0': 'Jane',
+			':v0': 1,
+			':v1': new Set(['new']),
+			':v2': new Set(['old'])
+		})
+	})
+
+	test('should compile if_not_exists and list_append in SET', () => {
+		const result = buildUpdateInput({
+			tableName: 'test',
+			key: { id: '123' },
+			params: { views: ifNotExists(0), history: listAppend(['a']), recent: listAppend(['b'], true) }
+		})
+
+		expect(result.UpdateExpression).toBe(
+			'SET #views = if_not_exists(#views, :v0), #history = list_append(#history, :h1), ' +
+				'#recent = list_append(:r2, #recent)'
+		)
+		expect(result.ExpressionAttributeValues).toEqual({ ':v0': 0, ':h1': ['a'], ':r2': ['b'] })
+	})
+
+	test('should omit empty value maps for REMOVE-only updates', () => {
+		const result = buildUpdateInput({ tableName: 'test', key: { id: '123' }, remove: ['a'] })
+
+		expect(result.UpdateExpression).toBe('REMOVE #a')
+		expect(result.ExpressionAttributeValues).toBeUndefined()
+	})
+
+	test('should reject updates without actions', () => {
+		expect(() => buildUpdateInput({ tableName: 'test', key: { id: '123' } })).toThrow(
+			ValidationError
+		)
+	})
+
+	test('should reject an attribute updated by more than one action', () => {
+		expect(() =>
+			buildUpdateInput({
+				tableName: 'test',
+				key: { id: '123' },
+				params: { views: 1 },
+				add: { views: 1 }
+			})
+		).toThrow(ValidationError)
+	})
 })
 
 describe('buildQueryInput', () => {
@@ -239,13 +406,13 @@ describe('buildQueryInput', () => {
 			TableName: 'test',
 			IndexName: 'test',
 			Limit: 10,
-			ConsistentRead: true,
 			ExclusiveStartKey: { id: { S: 'next-token' } },
+			ExpressionAttributeNames: { '#name': 'name' },
 			ExpressionAttributeValues: {
-				':n': { S: 'John Doe' },
-				':a': { N: '25' }
+				':n': 'John Doe',
+				':a': 25
 			},
-			KeyConditionExpression: 'name = :n and age = :a'
+			KeyConditionExpression: '#name = :n and age = :a'
 		})
 	})
 
@@ -274,6 +441,99 @@ describe('buildQueryInput', () => {
 			KeyConditionExpression: '#select = :s and #from = :f'
 		})
 	})
+
+	test('should add a sort key condition to the key condition expression', () => {
+		const result = buildQueryInput({
+			tableName: 'test',
+			params: { pk: 'USER#1' },
+			sortKey: beginsWith('sk', 'ORDER#'),
+			scanIndexForward: false
+		})
+
+		expect(result.KeyConditionExpression).toBe('pk = :p and begins_with(#sk, :v0)')
+		expect(result.ExpressionAttributeNames).toEqual({ '#sk': 'sk' })
+		expect(result.ScanIndexForward).toBe(false)
+	})
+
+	test('should support between and range operators on the sort key', () => {
+		expect(
+			buildQueryInput({ tableName: 'test', params: { pk: 'a' }, sortKey: between('sk', 1, 5) })
+				.KeyConditionExpression
+		).toBe('pk = :p and #sk BETWEEN :v0 AND :v1')
+		expect(
+			buildQueryInput({ tableName: 'test', params: { pk: 'a' }, sortKey: gte('sk', 1) })
+				.KeyConditionExpression
+		).toBe('pk = :p and #sk >= :v0')
+	})
+
+	test('should reject operators not allowed in key conditions', () => {
+		expect(() =>
+			buildQueryInput({ tableName: 'test', params: { pk: 'a' }, sortKey: ne('sk', 1) })
+		).toThrow(ValidationError)
+	})
+
+	test('should build the filter and projection expressions', () => {
+		const result = buildQueryInput({
+			tableName: 'test',
+			params: { pk: 'a' },
+			names: { '#n': 'name' },
+			values: { ':name': 'John Doe' },
+			filters: ['#n = :name'],
+			filter: gte('age', 18),
+			output: ['name', 'email']
+		})
+
+		expect(result.KeyConditionExpression).toBe('pk = :p')
+		expect(result.FilterExpression).toBe('(#n = :name) and (#age >= :v0)')
+		expect(result.ProjectionExpression).toBe('#n, #email')
+		expect(Object.keys(result.ExpressionAttributeValues!)).toEqual([':name', ':p', ':v0'])
+	})
+
+	test('should keep generated placeholders clear of the filter placeholders', () => {
+		const result = buildQueryInput({
+			tableName: 'test',
+			params: { pk: 'a' },
+			sortKey: gte('sk', 1),
+			names: { '#n0': 'kind-of' },
+			values: { ':p': 'x', ':v0': 'y' },
+			filters: ['#n0 <> :v0 and kind = :p']
+		})
+
+		expect(result.KeyConditionExpression).toBe('pk = :pk and #sk >= :v1')
+		expect(result.ExpressionAttributeNames).toEqual({ '#n0': 'kind-of', '#sk': 'sk' })
+		expect(result.ExpressionAttributeValues).toEqual({
+			':p': 'x',
+			':v0': 'y',
+			':pk': 'a',
+			':v1': 1
+		})
+	})
+
+	test('should keep falsy key values', () => {
+		const result = buildQueryInput({ tableName: 'test', params: { pk: 0 }, sortKey: gte('sk', 0) })
+
+		expect(result.ExpressionAttributeValues).toEqual({ ':p': 0, ':v0': 0 })
+	})
+
+	test('should reject missing key values and malformed placeholders', () => {
+		expect(() => buildQueryInput({ tableName: 'test', params: { pk: undefined } })).toThrow(
+			ValidationError
+		)
+		expect(() =>
+			buildQueryInput({ tableName: 'test', params: { pk: 'a' }, values: { status: 'open' } })
+		).toThrow(ValidationError)
+	})
+
+	test('should not request consistent reads of indexes', () => {
+		const result = buildQueryInput({
+			tableName: 'test',
+			indexName: 'byEmail',
+			params: { email: 'a' }
+		})
+
+		expect(result).not.toHaveProperty('ConsistentRead')
+		expect(buildQueryInput({ tableName: 'test', params: { pk: 'a' } }).ConsistentRead).toBe(true)
+	})
 })
 
 describe('buildDeleteInput', () => {
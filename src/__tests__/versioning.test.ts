@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { mockClient } from 'aws-sdk-client-mock'
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import {
+	DeleteCommand,
+	DynamoDBDocumentClient,
+	PutCommand,
+	UpdateCommand
+} from '@aws-sdk/lib-dynamodb'
+import { buildDeleteInput, buildPutInput, buildUpdateInput } from '../utils'
+import { eq } from '../utils/expression'
+import { DynamoDb } from '../dynamodb'
+import { defineEntity } from '../entity'
+import { ItemNotFoundError, ValidationError, VersionConflictError } from '../errors'
+
+const ddbMock = mockClient(DynamoDBDocumentClient)
+
+const conditionalCheckFailed = (item?: Record<string, any>) =>
+	new ConditionalCheckFailedException({ message: 'failed', $metadata: {}, Item: item })
+
+describe('optimistic locking', () => {
+	beforeEach(() => {
+		ddbMock.reset()
+	})
+
+	describe('builders', () => {
+		it('should write the first version of new items', () => {
+			const result = buildPutInput({ tableName: 'test', params: { id: '1' }, version: {} })
+
+			expect(result).toEqual({
+				TableName: 'test',
+				Item: { id: '1', version: 1 },
+				ConditionExpression: 'attribute_not_exists(#version)',
+				ExpressionAttributeNames: { '#version': 'version' },
+				ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+			})
+		})
+
+		it('should replace the expected version with the next one', () => {
+			const result = buildPutInput({
+				tableName: 'test',
+				params: { id: '1', rev: 3 },
+				condition: eq('status', 'open'),
+				version: { attribute: 'rev', expected: 3 }
+			})
+
+			expect(result.Item).toEqual({ id: '1', rev: 4 })
+			expect(result.ConditionExpression).toBe('#status = :v0 AND #rev = :v1')
+			expect(result.ExpressionAttributeValues).toEqual({ ':v0': 'open', ':v1': 3 })
+		})
+
+		it('should increment the version atomically on update', () => {
+			const result = buildUpdateInput({
+				tableName: 'test',
+				key: { id: '1' },
+				params: { name: 'Jane' },
+				version: { expected: 2 }
+			})
+
+			expect(result.UpdateExpression).toBe('SET #name = :n0 ADD #version :v0')
+			expect(result.ConditionExpression).toBe('#version = :v1')
+			expect(result.ExpressionAttributeValues).toEqual({ ':n0': 'Jane', ':v0': 1, ':v1': 2 })
+		})
+
+		it('should only delete the expected version', () => {
+			const result = buildDeleteInput({
+				tableName: 'test',
+				key: { id: '1' } as any,
+				version: { expected: 2 }
+			})
+
+			expect(result.ConditionExpression).toBe('#version = :v0')
+		})
+
+		it('should reject invalid expected versions and direct version changes', () => {
+			expect(() =>
+				buildPutInput({ tableName: 'test', params: {}, version: { expected: 1.5 } })
+			).toThrow(ValidationError)
+			expect(() =>
+				buildUpdateInput({
+					tableName: 'test',
+					key: { id: '1' },
+					params: { version: 5 },
+					version: { expected: 1 }
+				})
+			).toThrow(ValidationError)
+		})
+	})
+
+	describe('DynamoDb', () => {
+		const dynamoDb = new DynamoDb({ region: 'us-east-1' })
+		const request = {
+			tableName: 'users',
+			key: { id: '1' } as any,
+			params: { name: 'Jane' },
+			version: { expected: 2 }
+		}
+
+		it('should throw a VersionConflictError carrying the key and expected version', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed({ version: { N: '3' } }))
+
+			const error = await dynamoDb.update(request).catch((e) => e)
+
+			expect(error).toBeInstanceOf(VersionConflictError)
+			expect(error).toMatchObject({ tableName: 'users', key: { id: '1' }, expectedVersion: 2 })
+		})
+
+		it('should still report missing items', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed())
+
+			await expect(dynamoDb.update(request)).rejects.toThrow(ItemNotFoundError)
+		})
+
+		it('should tell version conflicts of deletes from missing items', async () => {
+			ddbMock
+				.on(DeleteCommand)
+				.rejectsOnce(conditionalCheckFailed({ version: { N: '3' } }))
+				.rejectsOnce(conditionalCheckFailed())
+
+			await expect(dynamoDb.delete(request)).rejects.toThrow(VersionConflictError)
+			await expect(dynamoDb.delete(request)).rejects.toThrow(ItemNotFoundError)
+		})
+	})
+
+	describe('Entity', () => {
+		const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }))
+		const users = defineEntity<{ id: string; name?: string; version?: number }>(client, {
+			tableName: 'users',
+			key: { partitionKey: 'id' },
+			versionAttribute: 'version',
+			attributes: { id: { type: 'S', required: true }, version: { type: 'N' } }
+		})
+
+		it('should put the next version of the item as read', async () => {
+			ddbMock.on(PutCommand).resolves({})
+
+			const item = await users.put({ id: '1', name: 'Jane', version: 4 })
+
+			expect(item.version).toBe(5)
+			expect(ddbMock.commandCalls(PutCommand)[0].args[0].input).toMatchObject({
+				ConditionExpression: '#version = :v0',
+				ExpressionAttributeValues: { ':v0': 4 }
+			})
+		})
+
+		it('should expect the version of the item passed to update', async () => {
+			ddbMock.on(UpdateCommand).rejects(conditionalCheckFailed({ version: { N: '5' } }))
+
+			await expect(users.update({ id: '1', version: 4 }, { name: 'Ann' })).rejects.toThrow(
+				VersionConflictError
+			)
+			expect(ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ConditionExpression).toBe(
+				'(attribute_exists(#id)) AND #version = :v1'
+			)
+		})
+
+		it('should prefer the expected version of the options', async () => {
+			ddbMock.on(DeleteCommand).rejects(conditionalCheckFailed({ version: { N: '5' } }))
+
+			const error = await users.delete({ id: '1' }, { expectedVersion: 3 }).catch((e) => e)
+
+			expect(error).toBeInstanceOf(VersionConflictError)
+			expect(error.operation).toBe('delete')
+			expect(error.expectedVersion).toBe(3)
+		})
+
+		it('should report versioned deletes of missing items', async () => {
+			ddbMock.on(DeleteCommand).rejects(conditionalCheckFailed())
+
+			await expect(users.delete({ id: '1' }, { expectedVersion: 3 })).rejects.toThrow(
+				ItemNotFoundError
+			)
+		})
+	})
+})
@@ -0,0 +1,427 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import {
+	DeleteCommand,
+	DeleteCommandInput,
+	DynamoDBDocumentClient,
+	GetCommand,
+	GetCommandInput,
+	PutCommand,
+	PutCommandInput,
+	QueryCommand,
+	QueryCommandInput,
+	UpdateCommand,
+	UpdateCommandInput
+} from '@aws-sdk/lib-dynamodb'
+import {
+	Condition,
+	CreateEntityRequest,
+	DynamoDbOptions,
+	EntityKey,
+	EntityRequest,
+	GetItemRequest,
+	QueryItemRequest,
+	SoftDeleteOptions,
+	UpdateActions
+} from './types'
+import {
+	buildDeleteInput,
+	buildGetInput,
+	buildPutInput,
+	buildQueryInput,
+	buildRestoreInput,
+	buildSoftDeleteInput,
+	buildUpdateInput
+} from './utils'
+import { and, attributeExists, attributeNotExists } from './utils/expression'
+import { validateKey, validateTableName } from './utils/validation'
+import { TimestampOptions } from './utils/timestamp'
+import { notDeleted } from './utils/tombstone'
+import { ConditionalWrite, conditionFailure, isNoOpDelete, visibleItem } from './utils/conditions'
+import { RetryPolicy, retryPolicy, withRetry } from './retry'
+import {
+	CreateError,
+	DeleteError,
+	ItemNotFoundError,
+	QueryError,
+	UpdateError,
+	ValidationError,
+	translateError
+} from './errors'
+
+/**
+ * Build a condition requiring every key attribute to exist (or not exist)
+ * @param key Item key
+ * @param fn Condition to apply to each key attribute
+ */
+const keyCondition = (key: EntityKey, fn: (attribute: string) => Condition): Condition =>
+	and(...Object.keys(key).map((attr) => fn(attr)))
+
+/**
+ * Result of a delete: the key of the deleted item and its status
+ * @param key Item key
+ */
+const deleted = (key: EntityKey) =>
+	({ ...key, status: 'deleted' } as EntityKey & { status: string })
+
+/**
+ * DynamoDB client executing the input builders against the DocumentClient
+ */
+export class DynamoDb {
+	private readonly client: DynamoDBDocumentClient
+	private readonly timestamps?: TimestampOptions
+	private readonly softDelete?: SoftDeleteOptions
+	private readonly retry?: RetryPolicy
+
+	constructor(options: DynamoDbOptions = {}) {
+		const { timestamps, softDelete, retry, ...config } = options
+		this.client = DynamoDBDocumentClient.from(new DynamoDBClient(config), {
+			marshallOptions: { removeUndefinedValues: true }
+		})
+		this.timestamps = timestamps
+		this.softDelete = softDelete
+		this.retry = retryPolicy(retry)
+	}
+
+	/**
+	 * The underlying DocumentClient
+	 */
+	get documentClient(): DynamoDBDocumentClient {
+		return this.client
+	}
+
+	/**
+	 * Query the table by attributes
+	 * @param request Query request
+	 * @returns Items matching the query
+	 * @throws {QueryError} If the query fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async query<T extends EntityRequest & QueryItemRequest>(
+		request: T
+	): Promise<Record<string, unknown>[]> {
+		validateTableName(request.tableName)
+		const context = { operation: 'query', tableName: request.tableName }
+		try {
+			const input = buildQueryInput({
+				...request,
+				params: { ...request.query, ...request.params },
+				softDelete: this.softDelete,
+				mode: 'document'
+			})
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new QueryCommand(input as QueryCommandInput), { abortSignal }),
+				context
+			)
+			return (result.Items || []) as Record<string, unknown>[]
+		} catch (e) {
+			throw translateError(
+				e,
+				context,
+				(message, operation) =>
+					new QueryError(`Failed to query table ${request.tableName}: ${message}`, operation)
+			)
+		}
+	}
+
+	/**
+	 * Query the table and return the first item
+	 * @param request Query request
+	 * @returns The first matching item, or undefined
+	 * @throws {QueryError} If the query fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async queryRecord<T extends EntityRequest & QueryItemRequest>(
+		request: T
+	): Promise<Record<string, unknown> | undefined> {
+		const items = await this.query(request)
+		return items[0]
+	}
+
+	/**
+	 * Create a new item, failing if an item with the same key exists
+	 * @param request Create request
+	 * @returns The created item
+	 * @throws {ItemExistsError} If an item with the same key already exists
+	 * @throws {CreateError} If the creation fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async create<T extends CreateEntityRequest & QueryItemRequest>(
+		request: T
+	): Promise<Record<string, unknown>> {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const item: Record<string, unknown> = {
+			...request.params,
+			...(request.createdAt !== undefined && { createdAt: request.createdAt }),
+			...request.key
+		}
+		// a create that timed out may have been applied, and would then fail when repeated
+		const context = {
+			operation: 'create',
+			tableName: request.tableName,
+			key: request.key,
+			idempotent: false
+		}
+		try {
+			const input = buildPutInput({
+				tableName: request.tableName,
+				params: item,
+				condition: keyCondition(request.key, attributeNotExists),
+				timestamps: this.timestamps,
+				ttl: request.ttl
+			})
+			await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new PutCommand(input as PutCommandInput), { abortSignal }),
+				context
+			)
+			return input.Item as Record<string, unknown>
+		} catch (e) {
+			throw translateError(
+				e,
+				context,
+				(message, operation) =>
+					new CreateError(
+						`Failed to create item in table ${request.tableName}: ${message}`,
+						operation
+					)
+			)
+		}
+	}
+
+	/**
+	 * Find a specific item by key
+	 * @param request Find request
+	 * @returns The item
+	 * @throws {ItemNotFoundError} If the item is not found
+	 * @throws {QueryError} If the lookup fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async findRecord<T extends EntityRequest & GetItemRequest>(
+		request: T
+	): Promise<Record<string, unknown>> {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const context = { operation: 'find', tableName: request.tableName, key: request.key }
+		try {
+			const input = buildGetInput({ ...request, mode: 'document' })
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new GetCommand(input as GetCommandInput), { abortSignal }),
+				context
+			)
+			const item = visibleItem(result.Item, this.softDelete, request.includeDeleted)
+			if (!item) {
+				throw new ItemNotFoundError(request.tableName, request.key)
+			}
+			return item
+		} catch (e) {
+			throw translateError(
+				e,
+				context,
+				(message, operation) =>
+					new QueryError(`Failed to find item in table ${request.tableName}: ${message}`, operation)
+			)
+		}
+	}
+
+	/**
+	 * Update an existing item
+	 * @param request Update request
+	 * @returns The updated item
+	 * @throws {ItemNotFoundError} If the item is not found
+	 * @throws {VersionConflictError} If the item is versioned and has another version
+	 * @throws {UpdateError} If the update fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async update<T extends EntityRequest & GetItemRequest & UpdateActions>(
+		request: T
+	): Promise<Record<string, unknown> | undefined> {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const params: Record<string, unknown> = {
+			...request.params,
+			...(request.updatedAt !== undefined && { updatedAt: request.updatedAt })
+		}
+		const context = {
+			operation: 'update',
+			tableName: request.tableName,
+			key: request.key,
+			idempotent: !request.version && !request.add
+		}
+		try {
+			const input = buildUpdateInput({
+				tableName: request.tableName,
+				key: request.key,
+				params,
+				remove: request.remove,
+				add: request.add,
+				delete: request.delete,
+				condition: this.liveCondition(request.key),
+				version: request.version,
+				timestamps: this.timestamps,
+				ttl: request.ttl
+			})
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+				context
+			)
+			return result.Attributes
+		} catch (e) {
+			throw (
+				conditionFailure('update', e, this.write(request)) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new UpdateError(
+							`Failed to update item in table ${request.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Delete an item by key.
+	 * On soft-deleting clients, the item is marked as deleted instead
+	 * @param request Delete request, with who deleted the item
+	 * @returns The deleted item's key and status
+	 * @throws {ItemNotFoundError} If the delete expects a version and the item is not found
+	 * @throws {VersionConflictError} If the item is versioned and has another version
+	 * @throws {DeleteError} If the deletion fails
+	 * @throws {ValidationError} If the request is invalid
+	 */
+	async delete<T extends EntityRequest & GetItemRequest>(
+		request: T
+	): Promise<EntityKey & { status: string }> {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		const context = {
+			operation: 'delete',
+			tableName: request.tableName,
+			key: request.key,
+			idempotent: !request.version
+		}
+		try {
+			if (this.softDelete) {
+				const input = buildSoftDeleteInput({
+					...request,
+					softDelete: this.softDelete,
+					mode: 'document'
+				})
+				await withRetry(
+					this.retry,
+					(abortSignal) =>
+						this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+					context
+				)
+			} else {
+				const input = buildDeleteInput({ ...request, mode: 'document' })
+				await withRetry(
+					this.retry,
+					(abortSignal) =>
+						this.client.send(new DeleteCommand(input as DeleteCommandInput), { abortSignal }),
+					context
+				)
+			}
+			return deleted(request.key)
+		} catch (e) {
+			const write = this.write(request)
+			if (isNoOpDelete(e, write)) {
+				return deleted(request.key)
+			}
+			throw (
+				conditionFailure('delete', e, write) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new DeleteError(
+							`Failed to delete item in table ${request.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Restore a soft-deleted item
+	 * @param request Restore request
+	 * @returns The restored item
+	 * @throws {ItemNotFoundError} If there is no deleted item with the key
+	 * @throws {VersionConflictError} If the item is versioned and has another version
+	 * @throws {UpdateError} If the restore fails
+	 * @throws {ValidationError} If the client doesn't soft delete or the request is invalid
+	 */
+	async restore<T extends EntityRequest & GetItemRequest>(
+		request: T
+	): Promise<Record<string, unknown> | undefined> {
+		validateTableName(request.tableName)
+		validateKey(request.key)
+		if (!this.softDelete) {
+			throw new ValidationError('Restoring items requires the softDelete option')
+		}
+		const context = {
+			operation: 'restore',
+			tableName: request.tableName,
+			key: request.key,
+			idempotent: false
+		}
+		try {
+			const input = buildRestoreInput({
+				tableName: request.tableName,
+				key: request.key,
+				version: request.version,
+				softDelete: this.softDelete,
+				mode: 'document'
+			})
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+				context
+			)
+			return result.Attributes
+		} catch (e) {
+			throw (
+				conditionFailure('restore', e, this.write(request)) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new UpdateError(
+							`Failed to restore item in table ${request.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Condition requiring the item to exist, and not to be a tombstone on soft-deleting clients
+	 * @param key Item key
+	 */
+	private liveCondition(key: EntityKey): Condition {
+		const exists = keyCondition(key, attributeExists)
+		return this.softDelete ? and(exists, notDeleted(this.softDelete)) : exists
+	}
+
+	/**
+	 * The conditional write of a request, whose failed condition checks are mapped to errors
+	 * @param request Write request
+	 */
+	private write(request: EntityRequest & GetItemRequest): ConditionalWrite {
+		const { tableName, key, version } = request
+		return { tableName, key: key as EntityKey, version, softDelete: this.softDelete }
+	}
+}
@@ -0,0 +1,585 @@
+import { isPlainObject, mapValues } from 'lodash'
+import {
+	DeleteCommand,
+	DeleteCommandInput,
+	DynamoDBDocumentClient,
+	GetCommand,
+	GetCommandInput,
+	PutCommand,
+	PutCommandInput,
+	QueryCommand,
+	QueryCommandInput,
+	UpdateCommand,
+	UpdateCommandInput
+} from '@aws-sdk/lib-dynamodb'
+import {
+	AttributeType,
+	EntityDefinition,
+	EntityKeySchema,
+	EntityPage,
+	EntityPutOptions,
+	EntityDeleteOptions,
+	EntityQueryOptions,
+	EntityReadOptions,
+	EntityUpdateOptions,
+	EntityWriteOptions,
+	Key,
+	VersionOptions
+} from './types'
+import {
+	buildDeleteInput,
+	buildGetInput,
+	buildPutInput,
+	buildQueryInput,
+	buildRestoreInput,
+	buildSoftDeleteInput,
+	buildUpdateInput
+} from './utils'
+import { and, attributeExists, beginsWith, eq, isUpdateFunction } from './utils/expression'
+import { KeyTemplate } from './utils/keys'
+import { notDeleted } from './utils/tombstone'
+import { ConditionalWrite, conditionFailure, isNoOpDelete, visibleItem } from './utils/conditions'
+import { RetryPolicy, retryPolicy, withRetry } from './retry'
+import { validateTableName } from './utils/validation'
+import {
+	CreateError,
+	DeleteError,
+	QueryError,
+	UpdateError,
+	ValidationError,
+	translateError
+} from './errors'
+
+const isSetOf =
+	(check: (value: unknown) => boolean) =>
+	(value: unknown): boolean =>
+		value instanceof Set && Array.from(value).every(check)
+
+const isString = (value: unknown): boolean => typeof value === 'string'
+const isNumber = (value: unknown): boolean => typeof value === 'number' || typeof value === 'bigint'
+const isBinary = (value: unknown): boolean => value instanceof Uint8Array
+
+/**
+ * Checks of a plain value against each DynamoDB attribute type
+ */
+const TYPE_CHECKS: Record<AttributeType, (value: unknown) => boolean> = {
+	S: isString,
+	N: isNumber,
+	B: isBinary,
+	BOOL: (value) => typeof value === 'boolean',
+	NULL: (value) => value === null,
+	L: Array.isArray,
+	M: isPlainObject,
+	SS: isSetOf(isString),
+	NS: isSetOf(isNumber),
+	BS: isSetOf(isBinary)
+}
+
+/**
+ * Typed access to the items of one entity, built on the input builders.
+ * Items are validated against the declared attributes on every write.
+ */
+export class Entity<T extends Record<string, unknown>> {
+	readonly tableName: string
+	private readonly client: DynamoDBDocumentClient
+	private readonly definition: EntityDefinition<T>
+	private readonly templates: Record<string, KeyTemplate>
+	private readonly retry?: RetryPolicy
+
+	constructor(client: DynamoDBDocumentClient, definition: EntityDefinition<T>) {
+		validateTableName(definition.tableName)
+		if (!definition.key?.partitionKey) {
+			throw new ValidationError(`Entity ${definition.tableName} requires a partition key`)
+		}
+		this.client = client
+		this.tableName = definition.tableName
+		this.definition = definition
+		this.templates = mapValues(
+			definition.templates || {},
+			(template) => new KeyTemplate(template as string)
+		)
+		this.retry = retryPolicy(definition.retry)
+	}
+
+	/**
+	 * Extract the primary key of an item, building templated key attributes
+	 * @param item Item, key, or the attributes of the key templates
+	 * @returns The key attributes
+	 * @throws {ValidationError} If a key attribute is missing
+	 */
+	key(item: Partial<T>): Partial<T> {
+		return this.keyOf(item, this.definition.key)
+	}
+
+	/**
+	 * Complete an item for writing: fill in defaults, derive computed attributes and validate it
+	 * @param input Attributes of the item
+	 * @returns The complete item
+	 * @throws {ValidationError} If a required attribute is missing or a value has the wrong type
+	 */
+	item(input: Partial<T>): T {
+		const { attributes, computed = {} } = this.definition
+		const item: Record<string, unknown> = { ...input }
+		Object.keys(attributes).forEach((attr) => {
+			const fallback = attributes[attr]?.default
+			if (item[attr] === undefined && fallback !== undefined) {
+				item[attr] = typeof fallback === 'function' ? (fallback as () => unknown)() : fallback
+			}
+		})
+		Object.keys(computed).forEach((attr) => {
+			item[attr] = computed[attr](item as Partial<T>)
+		})
+		Object.keys(this.templates)
+			.filter((attr) => this.templates[attr].complete(item))
+			.forEach((attr) => {
+				item[attr] = this.templates[attr].build(item)
+			})
+		if (this.definition.entityType) {
+			item[this.typeAttribute] = this.definition.entityType
+		}
+		Object.keys(attributes)
+			.filter((attr) => attributes[attr]?.required && item[attr] === undefined)
+			.forEach((attr) => {
+				throw new ValidationError(`Attribute ${attr} is required`)
+			})
+		this.key(item as Partial<T>)
+		this.validateTypes(item as Partial<T>)
+		return item as T
+	}
+
+	/**
+	 * Put an item, replacing any item with the same key
+	 * @param input Attributes of the item
+	 * @param options Condition the existing item must meet, the expected version and the expiry
+	 * @returns The item as written
+	 * @throws {VersionConflictError} If the entity is versioned and the stored version differs
+	 * @throws {CreateError} If the put fails
+	 * @throws {ValidationError} If the item or the expiry is invalid
+	 */
+	async put(input: Partial<T>, options: EntityPutOptions = {}): Promise<T> {
+		const item = this.item(input)
+		const version = this.version(item, options)
+		const { condition } = options
+		const context = {
+			operation: 'put',
+			tableName: this.tableName,
+			idempotent: !condition && !version
+		}
+		try {
+			const putInput = buildPutInput({
+				tableName: this.tableName,
+				params: item,
+				condition,
+				version,
+				timestamps: this.definition.timestamps,
+				ttl: options.ttl || this.definition.ttl
+			})
+			await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new PutCommand(putInput as PutCommandInput), { abortSignal }),
+				context
+			)
+			return putInput.Item as T
+		} catch (e) {
+			const write = { tableName: this.tableName, key: this.key(item), version, condition }
+			throw (
+				conditionFailure('put', e, write) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new CreateError(`Failed to put item in table ${this.tableName}: ${message}`, operation)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Get an item by key
+	 * @param key Item key
+	 * @param options Whether to return tombstones of a soft-deleting entity
+	 * @returns The item, or undefined if not found
+	 * @throws {QueryError} If the get fails
+	 * @throws {ValidationError} If a key attribute is missing
+	 */
+	async get(key: Partial<T>, options: EntityReadOptions = {}): Promise<T | undefined> {
+		const input = buildGetInput({ tableName: this.tableName, key: this.key(key) as Key })
+		const context = { operation: 'get', tableName: this.tableName, key: input.Key }
+		try {
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new GetCommand(input as GetCommandInput), { abortSignal }),
+				context
+			)
+			const item = result.Item as T | undefined
+			return visibleItem(item, this.definition.softDelete, options.includeDeleted)
+		} catch (e) {
+			throw translateError(
+				e,
+				context,
+				(message, operation) =>
+					new QueryError(`Failed to get item from table ${this.tableName}: ${message}`, operation)
+			)
+		}
+	}
+
+	/**
+	 * Update attributes of an existing item
+	 * @param key Item key, or the item as read to expect its version
+	 * @param changes Attributes to set, values may be update functions
+	 * @param options Other update actions, a condition, the expected version and the expiry
+	 * @returns The updated item
+	 * @throws {ItemNotFoundError} If the item is not found
+	 * @throws {VersionConflictError} If the entity is versioned and the stored version differs
+	 * @throws {UpdateError} If the update fails
+	 * @throws {ValidationError} If a key attribute is changed or a value has the wrong type
+	 */
+	async update(
+		key: Partial<T>,
+		changes: Partial<T>,
+		options: EntityUpdateOptions = {}
+	): Promise<T> {
+		const itemKey = this.key(key)
+		const keyAttrs = Object.keys(itemKey).flatMap((attr) => [
+			attr,
+			...(this.templates[attr]?.attributes || [])
+		])
+		keyAttrs
+			.filter((attr) => changes[attr] !== undefined)
+			.forEach((attr) => {
+				throw new ValidationError(`Key attribute ${attr} cannot be updated`)
+			})
+		this.validateTypes(changes)
+		// rebuild the templated index keys the changes touch
+		const values = { ...key, ...changes }
+		const params: Record<string, unknown> = { ...changes }
+		Object.keys(this.templates)
+			.filter((attr) => !(attr in itemKey))
+			.filter((attr) => this.templates[attr].attributes.some((x) => changes[x] !== undefined))
+			.forEach((attr) => {
+				params[attr] = this.templates[attr].build(values)
+			})
+		const { softDelete } = this.definition
+		const exists = and(
+			...Object.keys(itemKey).map((attr) => attributeExists(attr)),
+			...(softDelete ? [notDeleted(softDelete)] : [])
+		)
+		const version = this.version(key, options)
+		const input = buildUpdateInput({
+			tableName: this.tableName,
+			key: itemKey,
+			params,
+			remove: options.remove,
+			add: options.add,
+			delete: options.delete,
+			condition: options.condition ? and(exists, options.condition) : exists,
+			version,
+			timestamps: this.definition.timestamps,
+			ttl: options.ttl || this.definition.ttl
+		})
+		const context = {
+			operation: 'update',
+			tableName: this.tableName,
+			key: itemKey,
+			idempotent: !version && !options.condition && !options.add
+		}
+		try {
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+				context
+			)
+			return result.Attributes as T
+		} catch (e) {
+			throw (
+				conditionFailure('update', e, this.write(itemKey, version, options)) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new UpdateError(
+							`Failed to update item in table ${this.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Delete an item by key, or mark it as deleted on soft-deleting entities
+	 * @param key Item key, or the item as read to expect its version
+	 * @param options Condition the item must meet, the expected version and who deletes the item
+	 * @throws {ItemNotFoundError} If the entity is versioned and the item is not found
+	 * @throws {VersionConflictError} If the entity is versioned and the stored version differs
+	 * @throws {DeleteError} If the deletion fails
+	 * @throws {ValidationError} If a key attribute is missing
+	 */
+	async delete(key: Partial<T>, options: EntityDeleteOptions = {}): Promise<void> {
+		const itemKey = this.key(key)
+		const version = this.version(key, options)
+		const { softDelete } = this.definition
+		const request = {
+			tableName: this.tableName,
+			key: itemKey as Key,
+			condition: options.condition,
+			version
+		}
+		const context = {
+			operation: 'delete',
+			tableName: this.tableName,
+			key: itemKey,
+			idempotent: !version && !options.condition
+		}
+		try {
+			if (softDelete) {
+				const input = buildSoftDeleteInput({ ...request, softDelete, deletedBy: options.deletedBy })
+				await withRetry(
+					this.retry,
+					(abortSignal) =>
+						this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+					context
+				)
+			} else {
+				const input = buildDeleteInput(request)
+				await withRetry(
+					this.retry,
+					(abortSignal) =>
+						this.client.send(new DeleteCommand(input as DeleteCommandInput), { abortSignal }),
+					context
+				)
+			}
+		} catch (e) {
+			const write = this.write(itemKey, version, options)
+			if (isNoOpDelete(e, write)) {
+				return
+			}
+			throw (
+				conditionFailure('delete', e, write) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new DeleteError(
+							`Failed to delete item in table ${this.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Restore an item of a soft-deleting entity
+	 * @param key Item key, or the item as read to expect its version
+	 * @param options Condition the item must meet, and the expected version
+	 * @returns The restored item
+	 * @throws {ItemNotFoundError} If there is no deleted item with the key
+	 * @throws {VersionConflictError} If the entity is versioned and the stored version differs
+	 * @throws {UpdateError} If the restore fails
+	 * @throws {ValidationError} If the entity doesn't soft delete or a key attribute is missing
+	 */
+	async restore(key: Partial<T>, options: EntityWriteOptions = {}): Promise<T> {
+		const { softDelete } = this.definition
+		if (!softDelete) {
+			throw new ValidationError(`Entity of table ${this.tableName} does not soft delete`)
+		}
+		const itemKey = this.key(key)
+		const version = this.version(key, options)
+		const input = buildRestoreInput({
+			tableName: this.tableName,
+			key: itemKey as Key,
+			condition: options.condition,
+			version,
+			softDelete
+		})
+		const context = {
+			operation: 'restore',
+			tableName: this.tableName,
+			key: itemKey,
+			idempotent: false
+		}
+		try {
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new UpdateCommand(input as UpdateCommandInput), { abortSignal }),
+				context
+			)
+			return result.Attributes as T
+		} catch (e) {
+			throw (
+				conditionFailure('restore', e, this.write(itemKey, version, options)) ||
+				translateError(
+					e,
+					context,
+					(message, operation) =>
+						new UpdateError(
+							`Failed to restore item in table ${this.tableName}: ${message}`,
+							operation
+						)
+				)
+			)
+		}
+	}
+
+	/**
+	 * Query the items of one partition of the table or of a declared index.
+	 * With templated keys, pass the template attributes instead of a key value:
+	 * the sort key then defaults to the template prefix those attributes allow.
+	 * @param partitionKey Partition key value, or the attributes of its template
+	 * @param options Index, sort key condition, filters and paging
+	 * @returns One page of items
+	 * @throws {QueryError} If the query fails
+	 * @throws {ValidationError} If the index is not declared or a template attribute is missing
+	 */
+	async query(partitionKey: unknown, options: EntityQueryOptions = {}): Promise<EntityPage<T>> {
+		const schema = options.indexName
+			? this.definition.indexes?.[options.indexName]
+			: this.definition.key
+		if (!schema) {
+			throw new ValidationError(`Index ${options.indexName} is not declared on ${this.tableName}`)
+		}
+		let sortKey = options.sortKey
+		let value = partitionKey
+		if (isPlainObject(partitionKey) && this.templates[schema.partitionKey]) {
+			const values = partitionKey as Record<string, unknown>
+			value = this.templates[schema.partitionKey].build(values)
+			const sortTemplate = schema.sortKey && this.templates[schema.sortKey]
+			// a complete key is matched exactly, its value would also prefix longer ones
+			if (!sortKey && sortTemplate && sortTemplate.complete(values)) {
+				sortKey = eq(schema.sortKey as string, sortTemplate.build(values))
+			} else if (!sortKey && sortTemplate) {
+				sortKey = beginsWith(schema.sortKey as string, sortTemplate.prefix(values))
+			}
+		}
+		const input = buildQueryInput({
+			...options,
+			tableName: this.tableName,
+			params: { [schema.partitionKey]: value },
+			sortKey,
+			softDelete: this.definition.softDelete
+		})
+		const context = { operation: 'query', tableName: this.tableName }
+		try {
+			const result = await withRetry(
+				this.retry,
+				(abortSignal) =>
+					this.client.send(new QueryCommand(input as QueryCommandInput), { abortSignal }),
+				context
+			)
+			return {
+				items: (result.Items || []) as T[],
+				lastEvaluatedKey: result.LastEvaluatedKey as Key | undefined
+			}
+		} catch (e) {
+			throw translateError(
+				e,
+				context,
+				(message, operation) =>
+					new QueryError(`Failed to query table ${this.tableName}: ${message}`, operation)
+			)
+		}
+	}
+
+	/**
+	 * Parse the templated attributes of an item back into the attributes they were built from
+	 * @param item Item, such as a query result projected to its keys
+	 * @returns The item with the parsed attributes filled in
+	 * @throws {ValidationError} If a templated attribute does not match its template
+	 */
+	parse(item: Partial<T>): Partial<T> {
+		const parsed: Record<string, unknown> = {}
+		Object.keys(this.templates)
+			.filter((attr) => item[attr] !== undefined)
+			.forEach((attr) => {
+				const values = this.templates[attr].parse(item[attr] as string)
+				Object.keys(values).forEach((x) => {
+					parsed[x] = this.definition.attributes[x]?.type === 'N' ? Number(values[x]) : values[x]
+				})
+			})
+		return { ...parsed, ...item }
+	}
+
+	/**
+	 * Pick the key attributes of a schema from an item, building templated ones
+	 * @param item Item or key
+	 * @param schema Key schema
+	 */
+	private keyOf(item: Partial<T>, schema: EntityKeySchema<T>): Partial<T> {
+		const attrs = [schema.partitionKey, schema.sortKey].filter(Boolean) as string[]
+		return attrs.reduce((key, attr) => {
+			const template = this.templates[attr]
+			const value = template?.complete(item) ? template.build(item) : item?.[attr]
+			if (value === undefined) {
+				throw new ValidationError(`Key attribute ${attr} is required`)
+			}
+			return { ...key, [attr]: value }
+		}, {} as Partial<T>)
+	}
+
+	/**
+	 * Versioning of a write on a versioned entity, expecting the version of the given item
+	 * unless the options name another one
+	 * @param item Item or key, as read
+	 * @param options Write options
+	 */
+	private version(item: Partial<T>, options: EntityWriteOptions): VersionOptions | undefined {
+		const attribute = this.definition.versionAttribute
+		if (!attribute) {
+			return undefined
+		}
+		return { attribute, expected: options.expectedVersion ?? (item[attribute] as number) }
+	}
+
+	/**
+	 * The conditional write of an operation, whose failed condition checks are mapped to errors
+	 * @param key Item key
+	 * @param version Versioning of the write
+	 * @param options Write options, with the caller's condition
+	 */
+	private write(
+		key: Partial<T>,
+		version: VersionOptions | undefined,
+		options: EntityWriteOptions
+	): ConditionalWrite {
+		const { softDelete } = this.definition
+		return { tableName: this.tableName, key, version, softDelete, condition: options.condition }
+	}
+
+	private get typeAttribute(): string {
+		return this.definition.typeAttribute || 'entityType'
+	}
+
+	/**
+	 * Check declared attributes against their types; update functions are skipped
+	 * @param values Attribute values
+	 */
+	private validateTypes(values: Partial<T>) {
+		Object.keys(values).forEach((attr) => {
+			const attribute = this.definition.attributes[attr]
+			const value = values[attr]
+			if (!attribute || value === undefined || isUpdateFunction(value)) {
+				return
+			}
+			if (!TYPE_CHECKS[attribute.type](value)) {
+				throw new ValidationError(`Attribute ${attr} must be of type ${attribute.type}`)
+			}
+		})
+	}
+}
+
+/**
+ * Declare an entity: its table, keys, attribute types, defaults, required and computed attributes
+ * @param client DocumentClient to send the requests with
+ * @param definition Entity definition
+ * @returns {Entity}
+ * @throws {ValidationError} If the definition is invalid
+ */
+export const defineEntity = <T extends Record<string, unknown>>(
+	client: DynamoDBDocumentClient,
+	definition: EntityDefinition<T>
+): Entity<T> => new Entity(client, definition)
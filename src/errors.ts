@@ -1,7 +1,16 @@
+import { CanceledOperation, ErrorContext } from './types'
+
 /**
  * Base error class for DynamoDB operations
  */
 export class DynamoDbError extends Error {
+	// SDK error this error was translated from
+	cause?: unknown
+	// AWS request id of the failed call
+	requestId?: string
+	// table of the failed call
+	tableName?: string
+
 	constructor(message: string, public readonly operation: string) {
 		super(message)
 		this.name = 'DynamoDbError'
@@ -28,12 +37,63 @@ export class ItemNotFoundError extends DynamoDbError {
 	}
 }
 
+/**
+ * Error thrown when a versioned write finds another version than expected
+ */
+export class VersionConflictError extends DynamoDbError {
+	constructor(
+		public readonly tableName: string,
+		public readonly key: Record<string, unknown>,
+		public readonly expectedVersion: number | undefined,
+		operation = 'update'
+	) {
+		super(
+			`Version conflict in table ${tableName} with key ${JSON.stringify(key)}: expected ${
+				expectedVersion === undefined ? 'no version' : `version ${expectedVersion}`
+			}`,
+			operation
+		)
+		this.name = 'VersionConflictError'
+	}
+}
+
+/**
+ * Error thrown when DynamoDB cancels a transaction, with the reason of each operation
+ */
+export class TransactionCanceledError extends DynamoDbError {
+	constructor(public readonly reasons: CanceledOperation[], operation = 'transactWrite') {
+		super(
+			`Transaction canceled: ${reasons
+				.filter((x) => x.code !== 'None')
+				.map((x) => `${x.code} (${x.type} on ${x.tableName})`)
+				.join(', ')}`,
+			operation
+		)
+		this.name = 'TransactionCanceledError'
+	}
+
+	/**
+	 * Reasons of the operations that caused the cancellation
+	 */
+	get failures(): CanceledOperation[] {
+		return this.reasons.filter((x) => x.code !== 'None')
+	}
+
+	/**
+	 * Whether an operation was rejected with a reason code
+	 * @param code Reason code, e.g. `ConditionalCheckFailed` or `TransactionConflict`
+	 */
+	has(code: string): boolean {
+		return this.reasons.some((x) => x.code === code)
+	}
+}
+
 /**
  * Error thrown when a query operation fails
  */
 export class QueryError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'query')
+	constructor(message: string, operation = 'query') {
+		super(message, operation)
 		this.name = 'QueryError'
 	}
 }
@@ -42,8 +102,8 @@ export class QueryError extends DynamoDbError {
  * Error thrown when a create operation fails
  */
 export class CreateError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'create')
+	constructor(message: string, operation = 'create') {
+		super(message, operation)
 		this.name = 'CreateError'
 	}
 }
@@ -52,8 +112,8 @@ export class CreateError extends DynamoDbError {
  * Error thrown when a delete operation fails
  */
 export class DeleteError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'delete')
+	constructor(message: string, operation = 'delete') {
+		super(message, operation)
 		this.name = 'DeleteError'
 	}
 }
@@ -62,8 +122,8 @@ export class DeleteError extends DynamoDbError {
  * Error thrown when an update operation fails
  */
 export class UpdateError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'update')
+	constructor(message: string, operation = 'update') {
+		super(message, operation)
 		this.name = 'UpdateError'
 	}
 }
@@ -72,8 +132,8 @@ export class UpdateError extends DynamoDbError {
  * Error thrown when validation fails
  */
 export class ValidationError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'validation')
+	constructor(message: string, operation = 'validation') {
+		super(message, operation)
 		this.name = 'ValidationError'
 	}
 }
@@ -92,8 +152,8 @@ export class TableOperationError extends DynamoDbError {
  * Error thrown when a connection to DynamoDB fails
  */
 export class ConnectionError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'connection')
+	constructor(message: string, operation = 'connection') {
+		super(message, operation)
 		this.name = 'ConnectionError'
 	}
 }
@@ -102,8 +162,8 @@ export class ConnectionError extends DynamoDbError {
  * Error thrown when credentials are invalid
  */
 export class CredentialsError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'credentials')
+	constructor(message: string, operation = 'credentials') {
+		super(message, operation)
 		this.name = 'CredentialsError'
 	}
 }
@@ -112,8 +172,8 @@ export class CredentialsError extends DynamoDbError {
  * Error thrown when a permission is denied
  */
 export class PermissionError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'permission')
+	constructor(message: string, operation = 'permission') {
+		super(message, operation)
 		this.name = 'PermissionError'
 	}
 }
@@ -122,18 +182,28 @@ export class PermissionError extends DynamoDbError {
  * Error thrown when a rate limit is exceeded
  */
 export class RateLimitError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'rateLimit')
+	constructor(message: string, operation = 'rateLimit') {
+		super(message, operation)
 		this.name = 'RateLimitError'
 	}
 }
 
+/**
+ * Error thrown when a retry policy's circuit is open after sustained throttling
+ */
+export class CircuitOpenError extends RateLimitError {
+	constructor(message: string, operation?: string) {
+		super(message, operation)
+		this.name = 'CircuitOpenError'
+	}
+}
+
 /**
  * Error thrown when a timeout occurs
  */
 export class TimeoutError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'timeout')
+	constructor(message: string, operation = 'timeout') {
+		super(message, operation)
 		this.name = 'TimeoutError'
 	}
 }
@@ -142,8 +212,8 @@ export class TimeoutError extends DynamoDbError {
  * Error thrown when a resource is not found
  */
 export class ResourceNotFoundError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'resource')
+	constructor(message: string, operation = 'resource') {
+		super(message, operation)
 		this.name = 'ResourceNotFoundError'
 	}
 }
@@ -152,8 +222,8 @@ export class ResourceNotFoundError extends DynamoDbError {
  * Error thrown when a resource is already in use
  */
 export class ResourceInUseError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'resource')
+	constructor(message: string, operation = 'resource') {
+		super(message, operation)
 		this.name = 'ResourceInUseError'
 	}
 }
@@ -162,8 +232,8 @@ export class ResourceInUseError extends DynamoDbError {
  * Error thrown when a resource is not available
  */
 export class ResourceNotAvailableError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'resource')
+	constructor(message: string, operation = 'resource') {
+		super(message, operation)
 		this.name = 'ResourceNotAvailableError'
 	}
 }
@@ -172,8 +242,8 @@ export class ResourceNotAvailableError extends DynamoDbError {
  * Error thrown when a resource is not supported
  */
 export class ResourceNotSupportedError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'resource')
+	constructor(message: string, operation = 'resource') {
+		super(message, operation)
 		this.name = 'ResourceNotSupportedError'
 	}
 }
@@ -182,8 +252,84 @@ export class ResourceNotSupportedError extends DynamoDbError {
  * Error thrown when a resource is not authorized
  */
 export class ResourceNotAuthorizedError extends DynamoDbError {
-	constructor(message: string) {
-		super(message, 'resource')
+	constructor(message: string, operation = 'resource') {
+		super(message, operation)
 		this.name = 'ResourceNotAuthorizedError'
 	}
 }
+
+/**
+ * Errors by SDK exception name
+ */
+const SDK_ERRORS: Record<
+	string,
+	(message: string, context: ErrorContext) => DynamoDbError | undefined
+> = {
+	ProvisionedThroughputExceededException: (message, { operation }) =>
+		new RateLimitError(message, operation),
+	ThrottlingException: (message, { operation }) => new RateLimitError(message, operation),
+	RequestLimitExceeded: (message, { operation }) => new RateLimitError(message, operation),
+	// control plane quota, such as concurrent table operations, which retries don't clear
+	LimitExceededException: (message, { operation }) => new TableOperationError(message, operation),
+	AccessDeniedException: (message, { operation }) => new PermissionError(message, operation),
+	UnrecognizedClientException: (message, { operation }) => new CredentialsError(message, operation),
+	InvalidSignatureException: (message, { operation }) => new CredentialsError(message, operation),
+	ExpiredTokenException: (message, { operation }) => new CredentialsError(message, operation),
+	MissingAuthenticationTokenException: (message, { operation }) =>
+		new CredentialsError(message, operation),
+	CredentialsProviderError: (message, { operation }) => new CredentialsError(message, operation),
+	ResourceNotFoundException: (message, { operation }) =>
+		new ResourceNotFoundError(message, operation),
+	ResourceInUseException: (message, { operation }) => new ResourceInUseError(message, operation),
+	ServiceUnavailable: (message, { operation }) => new ResourceNotAvailableError(message, operation),
+	InternalServerError: (message, { operation }) =>
+		new ResourceNotAvailableError(message, operation),
+	ValidationException: (message, { operation }) => new ValidationError(message, operation),
+	TimeoutError: (message, { operation }) => new TimeoutError(message, operation),
+	RequestTimeout: (message, { operation }) => new TimeoutError(message, operation),
+	RequestTimeoutException: (message, { operation }) => new TimeoutError(message, operation),
+	ConditionalCheckFailedException: (message, context) =>
+		context.operation === 'create'
+			? new ItemExistsError(context.tableName || '', context.key || {})
+			: undefined
+}
+
+/**
+ * Errors by Node.js network error code
+ */
+const NETWORK_ERRORS: Record<string, (message: string, context: ErrorContext) => DynamoDbError> = {
+	ECONNREFUSED: (message, { operation }) => new ConnectionError(message, operation),
+	ECONNRESET: (message, { operation }) => new ConnectionError(message, operation),
+	ENOTFOUND: (message, { operation }) => new ConnectionError(message, operation),
+	EAI_AGAIN: (message, { operation }) => new ConnectionError(message, operation),
+	EPIPE: (message, { operation }) => new ConnectionError(message, operation),
+	ETIMEDOUT: (message, { operation }) => new TimeoutError(message, operation)
+}
+
+/**
+ * Translate an error thrown by the AWS SDK into the matching DynamoDbError.
+ * Errors that are already DynamoDbErrors are returned as they are.
+ * @param error Error thrown by the client
+ * @param context Operation, table and key of the failed call
+ * @param fallback Error for SDK failures without a matching class, given the failed operation
+ * @returns {DynamoDbError} The error, with the SDK error as `cause`
+ */
+export const translateError = (
+	error: unknown,
+	context: ErrorContext,
+	fallback: (message: string, operation: string) => DynamoDbError = (message, operation) =>
+		new DynamoDbError(message, operation)
+): DynamoDbError => {
+	if (error instanceof DynamoDbError) return error
+	const e = (error || {}) as Record<string, any>
+	const message = typeof e.message === 'string' ? e.message : String(error)
+	const translated =
+		SDK_ERRORS[e.name]?.(message, context) ||
+		NETWORK_ERRORS[e.code]?.(message, context) ||
+		fallback(message, context.operation)
+	return Object.assign(translated, {
+		cause: error,
+		requestId: e.$metadata?.requestId,
+		tableName: context.tableName
+	})
+}
@@ -19,7 +19,68 @@ import {
 	EntityRequest,
 	CreateEntityRequest,
 	EntityKey,
-	ScanInputRequest
+	ScanInputRequest,
+	DynamoDbOptions,
+	Condition,
+	KeyCondition,
+	UpdateFunction,
+	UpdateItemRequest,
+	OperatorDescriptor,
+	ParallelScanOptions,
+	ScanCheckpoint,
+	ScanSegmentCheckpoint,
+	PaginationOptions,
+	PageableRequest,
+	CursorOptions,
+	BackoffOptions,
+	RetryOptions,
+	CircuitBreakerOptions,
+	RetryContext,
+	RetryEvent,
+	CircuitEvent,
+	CircuitState,
+	BulkExecuteOptions,
+	BulkifyOptions,
+	DuplicatePolicy,
+	BulkWriteSummary,
+	BulkGetOptions,
+	BulkGetTableOptions,
+	BulkGetResult,
+	TransactWriteOptions,
+	ConditionCheckRequest,
+	TransactGetRequest,
+	TransactGetOptions,
+	TransactWriteOperationType,
+	CanceledOperation,
+	MarshallingMode,
+	EntityAttribute,
+	EntityKeySchema,
+	EntityDefinition,
+	EntityWriteOptions,
+	EntityPutOptions,
+	EntityDeleteOptions,
+	EntityReadOptions,
+	VersionOptions,
+	VersionedRequest,
+	TimestampedRequest,
+	ExpiryOptions,
+	TtlOptions,
+	ExpiringRequest,
+	ExpiryFilterRequest,
+	SoftDeleteOptions,
+	SoftDeleteRequest,
+	TombstoneFilterRequest,
+	SoftDeleteItemRequest,
+	RestoreItemRequest,
+	ErrorContext,
+	EntityUpdateOptions,
+	EntityQueryOptions,
+	EntityPage,
+	Page,
+	CompiledExpression,
+	ComparisonOperator,
+	AttributeType,
+	Operand
 } from './types'
 import {
 	buildPutInput,
@@ -27,9 +88,76 @@ import {
 	buildScanInput,
 	buildUpdateInput,
 	buildQueryInput,
-	buildDeleteInput
+	buildDeleteInput,
+	buildConditionCheckInput,
+	buildSoftDeleteInput,
+	buildRestoreInput
 } from './utils'
+import {
+	ExpressionContext,
+	compileCondition,
+	buildConditionExpression,
+	eq,
+	ne,
+	lt,
+	lte,
+	gt,
+	gte,
+	between,
+	isIn,
+	beginsWith,
+	contains,
+	attributeExists,
+	attributeNotExists,
+	attributeType,
+	size,
+	and,
+	or,
+	not,
+	ifNotExists,
+	listAppend,
+	descriptorCondition
+} from './utils/expression'
+import { ParallelScan, parallelScan } from './utils/scan'
+import { Paginator, paginateQuery, paginateScan } from './utils/pagination'
+import { encodeCursor, decodeCursor } from './utils/cursor'
+import { marshallItem, marshallValue, unmarshallItem } from './utils/marshall'
+import { KeyTemplate, keyTemplate } from './utils/keys'
+import { TimestampOptions, TimezoneOptions } from './utils/timestamp'
+import { expiresAt, isExpired, notExpired, parseDuration, removeExpired } from './utils/ttl'
+import { isDeleted, notDeleted } from './utils/tombstone'
 import Bulkify from './Bulkify'
+import BulkGet from './BulkGet'
+import TransactWrite from './TransactWrite'
+import TransactGet from './TransactGet'
+import { DynamoDb } from './dynamodb'
+import { Entity, defineEntity } from './entity'
+import { RetryPolicy, isRetryable } from './retry'
+import {
+	DynamoDbError,
+	ItemExistsError,
+	ItemNotFoundError,
+	VersionConflictError,
+	TransactionCanceledError,
+	QueryError,
+	CreateError,
+	DeleteError,
+	UpdateError,
+	ValidationError,
+	TableOperationError,
+	ConnectionError,
+	CredentialsError,
+	PermissionError,
+	RateLimitError,
+	CircuitOpenError,
+	TimeoutError,
+	ResourceNotFoundError,
+	ResourceInUseError,
+	ResourceNotAvailableError,
+	ResourceNotSupportedError,
+	ResourceNotAuthorizedError,
+	translateError
+} from './errors'
 
 export {
 	buildPutInput,
@@ -38,6 +166,42 @@ export {
 	buildUpdateInput,
 	buildQueryInput,
 	buildDeleteInput,
+	buildConditionCheckInput,
+	buildSoftDeleteInput,
+	buildRestoreInput,
+	ExpressionContext,
+	compileCondition,
+	buildConditionExpression,
+	eq,
+	ne,
+	lt,
+	lte,
+	gt,
+	gte,
+	between,
+	isIn,
+	beginsWith,
+	contains,
+	attributeExists,
+	attributeNotExists,
+	attributeType,
+	size,
+	and,
+	or,
+	not,
+	ifNotExists,
+	listAppend,
+	descriptorCondition,
+	ParallelScan,
+	parallelScan,
+	Paginator,
+	paginateQuery,
+	paginateScan,
+	encodeCursor,
+	decodeCursor,
+	marshallItem,
+	marshallValue,
+	unmarshallItem,
 	DynamoTable,
 	Identifier,
 	Service,
@@ -59,5 +223,108 @@ export {
 	CreateEntityRequest,
 	EntityKey,
 	ScanInputRequest,
-	Bulkify
+	DynamoDbOptions,
+	Condition,
+	KeyCondition,
+	UpdateFunction,
+	UpdateItemRequest,
+	OperatorDescriptor,
+	ParallelScanOptions,
+	ScanCheckpoint,
+	ScanSegmentCheckpoint,
+	PaginationOptions,
+	PageableRequest,
+	CursorOptions,
+	BackoffOptions,
+	RetryOptions,
+	CircuitBreakerOptions,
+	RetryContext,
+	RetryEvent,
+	CircuitEvent,
+	CircuitState,
+	BulkExecuteOptions,
+	BulkifyOptions,
+	DuplicatePolicy,
+	BulkWriteSummary,
+	BulkGetOptions,
+	BulkGetTableOptions,
+	BulkGetResult,
+	TransactWriteOptions,
+	ConditionCheckRequest,
+	TransactGetRequest,
+	TransactGetOptions,
+	TransactWriteOperationType,
+	CanceledOperation,
+	MarshallingMode,
+	EntityAttribute,
+	EntityKeySchema,
+	EntityDefinition,
+	EntityWriteOptions,
+	EntityPutOptions,
+	EntityDeleteOptions,
+	EntityReadOptions,
+	VersionOptions,
+	VersionedRequest,
+	TimestampedRequest,
+	ExpiryOptions,
+	TtlOptions,
+	ExpiringRequest,
+	ExpiryFilterRequest,
+	SoftDeleteOptions,
+	SoftDeleteRequest,
+	TombstoneFilterRequest,
+	SoftDeleteItemRequest,
+	RestoreItemRequest,
+	ErrorContext,
+	EntityUpdateOptions,
+	EntityQueryOptions,
+	EntityPage,
+	Page,
+	CompiledExpression,
+	ComparisonOperator,
+	AttributeType,
+	Operand,
+	Bulkify,
+	BulkGet,
+	TransactWrite,
+	TransactGet,
+	DynamoDb,
+	Entity,
+	defineEntity,
+	RetryPolicy,
+	isRetryable,
+	KeyTemplate,
+	keyTemplate,
+	TimestampOptions,
+	TimezoneOptions,
+	expiresAt,
+	isExpired,
+	notExpired,
+	parseDuration,
+	removeExpired,
+	isDeleted,
+	notDeleted,
+	DynamoDbError,
+	ItemExistsError,
+	ItemNotFoundError,
+	VersionConflictError,
+	TransactionCanceledError,
+	QueryError,
+	CreateError,
+	DeleteError,
+	UpdateError,
+	ValidationError,
+	TableOperationError,
+	ConnectionError,
+	CredentialsError,
+	PermissionError,
+	RateLimitError,
+	CircuitOpenError,
+	TimeoutError,
+	ResourceNotFoundError,
+	ResourceInUseError,
+	ResourceNotAvailableError,
+	ResourceNotSupportedError,
+	ResourceNotAuthorizedError,
+	translateError
 }
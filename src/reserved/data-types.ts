@@ -1,46 +0,0 @@
-export const dataTypes = [
-	'string',
-	'number',
-	'binary',
-	'boolean',
-	'null',
-	'list',
-	'map',
-	'stringset',
-	'numberset',
-	'binaryset',
-	'date',
-	'timestamp',
-	'uuid',
-	'json',
-	'array',
-	'object',
-	'int',
-	'float',
-	'double',
-	'decimal',
-	'char',
-	'varchar',
-	'text',
-	'blob',
-	'clob',
-	'byte',
-	'bit',
-	'bool',
-	'date',
-	'time',
-	'datetime',
-	'timestamp',
-	'interval',
-	'year',
-	'month',
-	'day',
-	'hour',
-	'minute',
-	'second',
-	'millisecond',
-	'microsecond',
-	'nanosecond'
-] as const
-
-export type DataType = (typeof dataTypes)[number]
@@ -1,82 +0,0 @@
-export const functions = [
-	'count',
-	'sum',
-	'avg',
-	'min',
-	'max',
-	'coalesce',
-	'nullif',
-	'if',
-	'case',
-	'when',
-	'then',
-	'else',
-	'end',
-	'cast',
-	'convert',
-	'extract',
-	'date',
-	'time',
-	'timestamp',
-	'interval',
-	'year',
-	'month',
-	'day',
-	'hour',
-	'minute',
-	'second',
-	'millisecond',
-	'microsecond',
-	'nanosecond',
-	'current_date',
-	'current_time',
-	'current_timestamp',
-	'localtime',
-	'localtimestamp',
-	'sessiontimezone',
-	'timezone',
-	'trim',
-	'ltrim',
-	'rtrim',
-	'upper',
-	'lower',
-	'length',
-	'char_length',
-	'character_length',
-	'position',
-	'substring',
-	'overlay',
-	'replace',
-	'concat',
-	'concat_ws',
-	'ascii',
-	'chr',
-	'char',
-	'character',
-	'octet_length',
-	'bit_length',
-	'abs',
-	'mod',
-	'sqrt',
-	'power',
-	'exp',
-	'ln',
-	'log',
-	'sin',
-	'cos',
-	'tan',
-	'asin',
-	'acos',
-	'atan',
-	'atan2',
-	'pi',
-	'random',
-	'round',
-	'trunc',
-	'floor',
-	'ceiling',
-	'ceiling',
-	'sign'
-] as const
-
-export type Function = (typeof functions)[number]
@@ -1,50 +0,0 @@
-export const indexOperations = [
-	'create',
-	'drop',
-	'alter',
-	'rebuild',
-	'reorganize',
-	'disable',
-	'enable',
-	'primary',
-	'unique',
-	'clustered',
-	'nonclustered',
-	'hash',
-	'btree',
-	'spatial',
-	'fulltext',
-	'filtered',
-	'include',
-	'where',
-	'with',
-	'fillfactor',
-	'pad_index',
-	'sort_in_tempdb',
-	'ignore_dup_key',
-	'statistics_norecompute',
-	'drop_existing',
-	'online',
-	'resumable',
-	'max_duration',
-	'abort_after_wait',
-	'all',
-	'row',
-	'page',
-	'lock_escalation',
-	'compression',
-	'data_compression',
-	'row_compression',
-	'page_compression',
-	'columnstore',
-	'columnstore_archive',
-	'partition',
-	'filegroup',
-	'filestream',
-	'memory_optimized',
-	'durability',
-	'schema_only',
-	'schema_and_data'
-] as const
-
-export type IndexOperation = (typeof indexOperations)[number]
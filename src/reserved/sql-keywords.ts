@@ -1,48 +0,0 @@
-export const sqlKeywords = [
-	'select',
-	'from',
-	'where',
-	'group',
-	'by',
-	'having',
-	'order',
-	'asc',
-	'desc',
-	'limit',
-	'offset',
-	'join',
-	'inner',
-	'outer',
-	'left',
-	'right',
-	'cross',
-	'union',
-	'intersect',
-	'except',
-	'all',
-	'distinct',
-	'as',
-	'on',
-	'using',
-	'with',
-	'recursive',
-	'case',
-	'when',
-	'then',
-	'else',
-	'end',
-	'and',
-	'or',
-	'not',
-	'in',
-	'exists',
-	'between',
-	'like',
-	'is',
-	'null',
-	'true',
-	'false',
-	'unknown'
-] as const
-
-export type SqlKeyword = (typeof sqlKeywords)[number]
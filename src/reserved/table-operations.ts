@@ -1,55 +0,0 @@
-export const tableOperations = [
-	'create',
-	'alter',
-	'drop',
-	'truncate',
-	'rename',
-	'comment',
-	'partition',
-	'subpartition',
-	'tablespace',
-	'storage',
-	'temporary',
-	'global',
-	'local',
-	'external',
-	'managed',
-	'location',
-	'format',
-	'delimiter',
-	'serde',
-	'properties',
-	'tblproperties',
-	'like',
-	'as',
-	'select',
-	'insert',
-	'update',
-	'delete',
-	'merge',
-	'upsert',
-	'replace',
-	'load',
-	'unload',
-	'export',
-	'import',
-	'copy',
-	'backup',
-	'restore',
-	'analyze',
-	'optimize',
-	'repair',
-	'check',
-	'verify',
-	'validate',
-	'describe',
-	'explain',
-	'show',
-	'list',
-	'use',
-	'database',
-	'schema',
-	'catalog'
-] as const
-
-export type TableOperation = (typeof tableOperations)[number]
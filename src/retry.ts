@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events'
+import {
+	CircuitBreakerOptions,
+	CircuitState,
+	ErrorContext,
+	RetryContext,
+	RetryOptions
+} from './types'
+import { DEFAULT_BACKOFF_OPTIONS, backoffDelay, sleep } from './utils/backoff'
+import {
+	CircuitOpenError,
+	ConnectionError,
+	DynamoDbError,
+	RateLimitError,
+	ResourceNotAvailableError,
+	TimeoutError,
+	TransactionCanceledError,
+	translateError
+} from './errors'
+
+/**
+ * Default circuit breaker configuration
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<CircuitBreakerOptions> = {
+	threshold: 10,
+	cooldown: 30000
+}
+
+/**
+ * Errors that may succeed when the call is repeated
+ */
+const RETRYABLE_ERRORS = [RateLimitError, TimeoutError, ConnectionError, ResourceNotAvailableError]
+
+/**
+ * Errors proving the call was not applied, the only ones calls that are not idempotent are retried on
+ */
+const UNAPPLIED_ERRORS = [RateLimitError, TransactionCanceledError]
+
+/**
+ * Cancellation reasons of transactions that may succeed when the transaction is repeated
+ */
+const TRANSIENT_CANCELLATIONS = [
+	'TransactionConflict',
+	'ThrottlingError',
+	'ProvisionedThroughputExceeded'
+]
+
+/**
+ * Whether a failed call may succeed when repeated: rate limits, timeouts, connection failures,
+ * unavailable services, and transactions canceled only by conflicts or throttling
+ * @param error Translated error
+ */
+export const isRetryable = (error: DynamoDbError): boolean => {
+	if (error instanceof CircuitOpenError) {
+		return false
+	}
+	if (error instanceof TransactionCanceledError) {
+		const { failures } = error
+		return !!failures.length && failures.every((x) => TRANSIENT_CANCELLATIONS.includes(x.code))
+	}
+	return RETRYABLE_ERRORS.some((type) => error instanceof type)
+}
+
+/**
+ * Retries failed calls with exponential backoff and full jitter, within a per-call deadline.
+ * A circuit breaker shared by all calls of the policy rejects calls while throttling persists.
+ *
+ * Emits `retry` and `giveUp` with a RetryEvent, and `circuit` with a CircuitEvent.
+ */
+export class RetryPolicy extends EventEmitter {
+	private readonly options: RetryOptions
+	private state: CircuitState = 'closed'
+	private throttled = 0
+	private openedAt = 0
+
+	constructor(options: RetryOptions = {}) {
+		super()
+		this.options = options
+	}
+
+	/**
+	 * State of the circuit breaker
+	 */
+	get circuit(): CircuitState {
+		return this.state
+	}
+
+	/**
+	 * Run a call, retrying it while it fails with a retryable error.
+	 * Calls that are not idempotent are not retried after timeouts or connection failures,
+	 * since they may have been applied. The last failure is rethrown as the call threw it.
+	 * @param call Call to run, given a signal aborting it when the deadline passes
+	 * @param context Operation and table of the call, for errors and events, and its idempotency
+	 * @returns The result of the call
+	 * @throws {CircuitOpenError} If the circuit is open
+	 * @throws {TimeoutError} If the call is still running when the deadline passes
+	 */
+	async execute<R>(
+		call: (abortSignal?: AbortSignal) => Promise<R>,
+		context: RetryContext = { operation: 'call' }
+	): Promise<R> {
+		const { maxRetries } = { ...DEFAULT_BACKOFF_OPTIONS, ...this.options }
+		const { deadline } = this.options
+		const retryable = this.options.retryable || isRetryable
+		const wait = this.options.sleep || sleep
+		const started = this.now()
+		const until = deadline === undefined ? undefined : started + deadline
+
+		for (let attempt = 0; ; attempt++) {
+			this.admit(context)
+			try {
+				const result = await this.attempt(call, context, until)
+				this.record()
+				return result
+			} catch (e) {
+				const error = translateError(e, context)
+				this.record(error)
+				const delay = backoffDelay(attempt, this.options)
+				const remaining = until === undefined ? Infinity : until - this.now()
+				const unapplied = UNAPPLIED_ERRORS.some((type) => error instanceof type)
+				const repeatable = context.idempotent !== false || unapplied
+				if (attempt >= maxRetries || delay >= remaining || !repeatable || !retryable(error)) {
+					this.emit('giveUp', { ...context, attempt, error })
+					throw e
+				}
+				this.emit('retry', { ...context, attempt, delay, error })
+				await wait(delay)
+			}
+		}
+	}
+
+	/**
+	 * Run one attempt, aborting it when the deadline passes
+	 * @param call Call to run
+	 * @param context Operation and table of the call
+	 * @param until Deadline, in epoch milliseconds
+	 */
+	private async attempt<R>(
+		call: (abortSignal?: AbortSignal) => Promise<R>,
+		context: ErrorContext,
+		until?: number
+	): Promise<R> {
+		if (until === undefined) {
+			return call()
+		}
+		const controller = new AbortController()
+		const timer = setTimeout(() => controller.abort(), Math.max(0, until - this.now()))
+		try {
+			return await call(controller.signal)
+		} catch (e) {
+			if (controller.signal.aborted) {
+				const table = context.tableName ? ` on table ${context.tableName}` : ''
+				throw new TimeoutError(
+					`${context.operation}${table} did not complete within ${this.options.deadline}ms`,
+					context.operation
+				)
+			}
+			throw e
+		} finally {
+			clearTimeout(timer)
+		}
+	}
+
+	/**
+	 * Reject calls while the circuit is open, and half-open it once the cooldown has passed.
+	 * Only the call half-opening the circuit is sent, as its trial, until that trial settles.
+	 * @param context Operation and table of the call
+	 */
+	private admit(context: ErrorContext) {
+		if (this.state === 'closed') {
+			return
+		}
+		const table = context.tableName ? ` on table ${context.tableName}` : ''
+		if (this.state === 'halfOpen') {
+			throw new CircuitOpenError(
+				`Circuit is half-open awaiting its trial call, ${context.operation}${table} was not sent`,
+				context.operation
+			)
+		}
+		if (this.now() - this.openedAt < this.breaker.cooldown) {
+			throw new CircuitOpenError(
+				`Circuit is open after sustained throttling, ${context.operation}${table} was not sent`,
+				context.operation
+			)
+		}
+		this.transition('halfOpen')
+	}
+
+	/**
+	 * Count throttled attempts, opening the circuit at the threshold or when a trial call
+	 * is throttled, and close it again on any other outcome
+	 * @param error Failure of the attempt, undefined on success
+	 */
+	private record(error?: DynamoDbError) {
+		if (this.options.circuitBreaker === false) {
+			return
+		}
+		if (!(error instanceof RateLimitError)) {
+			this.throttled = 0
+			if (this.state === 'halfOpen') {
+				this.transition('closed')
+			}
+			return
+		}
+		this.throttled++
+		if (this.state === 'halfOpen' || this.throttled >= this.breaker.threshold) {
+			this.openedAt = this.now()
+			if (this.state !== 'open') {
+				this.transition('open')
+			}
+		}
+	}
+
+	private transition(state: CircuitState) {
+		this.state = state
+		this.emit('circuit', { state, throttled: this.throttled })
+	}
+
+	private get breaker(): Required<CircuitBreakerOptions> {
+		return { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...(this.options.circuitBreaker || {}) }
+	}
+
+	private now(): number {
+		return this.options.clock ? this.options.clock() : Date.now()
+	}
+}
+
+/**
+ * Resolve a retry option into a policy, keeping a given policy so its circuit breaker is shared
+ * @param retry Retry options or policy
+ */
+export const retryPolicy = (retry?: RetryOptions | RetryPolicy): RetryPolicy | undefined =>
+	retry instanceof RetryPolicy ? retry : retry && new RetryPolicy(retry)
+
+/**
+ * Run a call through a retry policy, or once without one
+ * @param policy Retry policy
+ * @param call Call to run, given a signal aborting it when the deadline passes
+ * @param context Operation and table of the call, and its idempotency
+ */
+export const withRetry = <R>(
+	policy: RetryPolicy | undefined,
+	call: (abortSignal?: AbortSignal) => Promise<R>,
+	context: RetryContext
+): Promise<R> => (policy ? policy.execute(call, context) : call())
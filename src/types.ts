@@ -1,4 +1,7 @@
 import { AttributeValue, PutItemInput, DynamoDBClientConfig } from '@aws-sdk/client-dynamodb'
+import { TimestampOptions, TimezoneOptions } from './utils/timestamp'
+import { DynamoDbError } from './errors'
+import { RetryPolicy } from './retry'
 
 export interface DynamoDbOptions extends DynamoDBClientConfig {
 	// Add any additional options specific to our implementation
@@ -8,6 +11,21 @@ export interface DynamoDbOptions extends DynamoDBClientConfig {
 		accessKeyId: string
 		secretAccessKey: string
 	}
+	// stamps items created and updated through the client
+	timestamps?: TimestampOptions
+	// deletes mark items as deleted, and reads hide them
+	softDelete?: SoftDeleteOptions
+	// retries failed calls, a policy can be shared to share its circuit breaker
+	retry?: RetryOptions | RetryPolicy
+}
+
+// Failed call an SDK error is translated for
+export interface ErrorContext {
+	// operation that failed, e.g. `create` or `query`
+	operation: string
+	tableName?: string
+	// key of the item the call targeted
+	key?: Record<string, unknown>
 }
 
 // Internal type for DynamoDB attribute values
@@ -57,12 +75,118 @@ export interface ParamRequest {
 }
 
 export interface FilteredRequest {
+	// raw filter expressions
 	filters?: string[]
+	// placeholders of the raw filters, e.g. `{ '#status': 'status' }`, kept clear of generated ones
+	names?: Record<string, string>
+	// e.g. `{ ':status': 'open' }`
+	values?: Record<string, unknown>
+	filter?: Condition
+}
+
+export interface ConditionalRequest {
+	condition?: Condition
+}
+
+export interface VersionOptions {
+	// version attribute, `version` by default
+	attribute?: string
+	// version the item was read at, omitted for items without a version yet
+	expected?: number
+}
+
+export interface VersionedRequest {
+	// optimistic locking: the write requires the expected version and increments it
+	version?: VersionOptions
+}
+
+export interface TimestampedRequest {
+	// stamps the creation time on the first write and the update time on every write
+	timestamps?: TimestampOptions
+}
+
+export interface ExpiryOptions {
+	// TTL attribute of the table, `ttl` by default
+	attribute?: string
+	// current time in milliseconds, `Date.now` by default
+	clock?: () => number
+}
+
+export interface TtlOptions extends ExpiryOptions {
+	// time to live, as a duration such as `30d` or `12h`, or in seconds
+	expiresIn: string | number
+}
+
+export interface ExpiringRequest {
+	// sets the TTL attribute to the expiry
+	ttl?: TtlOptions
+}
+
+export interface ExpiryFilterRequest {
+	// hides items whose TTL has passed but which DynamoDB hasn't deleted yet
+	excludeExpired?: ExpiryOptions
+}
+
+export interface SoftDeleteOptions {
+	// attribute holding the deletion time, `deletedAt` by default
+	deletedAt?: string
+	// attribute holding who deleted the item, `deletedBy` by default
+	deletedBy?: string
+	// storage format of the deletion time, epoch milliseconds by default
+	format?: TimezoneOptions['format']
+	// current time in milliseconds, `Date.now` by default
+	clock?: () => number
+	// keeps tombstones until their TTL, such as `30d`, timed by `clock` unless it has its own
+	ttl?: TtlOptions
+}
+
+export interface SoftDeleteRequest {
+	// the table keeps tombstones: deletes mark items and reads hide them
+	softDelete?: SoftDeleteOptions
+}
+
+export interface TombstoneFilterRequest extends SoftDeleteRequest {
+	// includes tombstoned items in reads of a soft-deleting table
+	includeDeleted?: boolean
+}
+
+// document: plain values for the DocumentClient, lowLevel: AttributeValues for DynamoDBClient
+export type MarshallingMode = 'document' | 'lowLevel'
+
+export interface MarshallingRequest {
+	mode?: MarshallingMode
+}
+
+export interface CursorOptions {
+	// HMAC secret, cursors are signed and verified when set
+	secret?: string
+	// context the cursor is bound to, such as the table and partition it was issued for
+	scope?: string
+	// time to live in seconds
+	ttl?: number
+	// current time in milliseconds, `Date.now` by default
+	clock?: () => number
 }
 
 export interface PageableRequest {
 	limit?: number
-	nextToken?: Key
+	// LastEvaluatedKey, or a cursor encoded from it
+	nextToken?: Key | string
+	cursorOptions?: CursorOptions
+}
+
+export interface PaginationOptions {
+	// stop once this many items have been returned
+	maxItems?: number
+	// stop once this many pages have been requested
+	maxPages?: number
+	// retries failed page requests
+	retry?: RetryOptions | RetryPolicy
+}
+
+export interface Page {
+	items: Record<string, unknown>[]
+	lastEvaluatedKey?: Key
 }
 
 export interface ListOutput {
@@ -75,20 +199,75 @@ export interface Resource extends Identifier, Service {}
 
 export interface TableConfiguration extends TableOperation, IndexOption, DynamoTable {}
 
-export interface PutItemRequest {
+export interface PutItemRequest
+	extends ConditionalRequest,
+		VersionedRequest,
+		TimestampedRequest,
+		ExpiringRequest,
+		MarshallingRequest {
 	tableName: string
 	params: Record<string, any>
 }
 
-export interface UpdateItemRequest {
+export interface UpdateActions {
+	// REMOVE clause
+	remove?: string[]
+	// ADD clause, numbers increment counters and sets add elements
+	add?: Record<string, unknown>
+	// DELETE clause, sets of elements to remove from set attributes
+	delete?: Record<string, unknown>
+}
+
+export interface UpdateItemRequest
+	extends ConditionalRequest,
+		VersionedRequest,
+		TimestampedRequest,
+		ExpiringRequest,
+		UpdateActions,
+		MarshallingRequest {
 	tableName: string
 	key: Record<string, any>
-	params: Record<string, any>
+	// SET clause, values may be update functions
+	params?: Record<string, any>
+}
+
+export interface GetItemRequest extends TableOperation, PartitionKey, MarshallingRequest {}
+
+export interface DeleteItemRequest
+	extends TableOperation,
+		PartitionKey,
+		ConditionalRequest,
+		VersionedRequest,
+		MarshallingRequest {}
+
+export interface SoftDeleteItemRequest extends DeleteItemRequest, SoftDeleteRequest {
+	// who deleted the item
+	deletedBy?: string
 }
 
-export interface GetItemRequest extends TableOperation, PartitionKey {}
+export interface RestoreItemRequest
+	extends TableOperation,
+		PartitionKey,
+		ConditionalRequest,
+		VersionedRequest,
+		SoftDeleteRequest,
+		MarshallingRequest {}
+
+export interface TransactGetRequest extends TableOperation, PartitionKey {
+	// attributes to return
+	projection?: string[]
+}
 
-export interface DeleteItemRequest extends TableOperation, PartitionKey {}
+export interface ConditionCheckRequest extends MarshallingRequest {
+	tableName: string
+	key: Record<string, any>
+	condition: Condition
+}
+
+export interface SortKeyRequest {
+	sortKey?: KeyCondition
+	scanIndexForward?: boolean
+}
 
 export interface QueryItemRequest
 	extends TableOperation,
@@ -96,7 +275,11 @@ export interface QueryItemRequest
 		ParamRequest,
 		PageableRequest,
 		FilteredRequest,
-		ListOutput {}
+		ExpiryFilterRequest,
+		TombstoneFilterRequest,
+		ListOutput,
+		SortKeyRequest,
+		MarshallingRequest {}
 
 export interface GetItemsRequest
 	extends TableOperation,
@@ -104,17 +287,62 @@ export interface GetItemsRequest
 		FilteredRequest,
 		ListOutput {}
 
+// Operators applied to a single attribute, combined with AND
+export interface OperatorDescriptor {
+	eq?: unknown
+	ne?: unknown
+	lt?: unknown
+	lte?: unknown
+	gt?: unknown
+	gte?: unknown
+	between?: [unknown, unknown]
+	in?: unknown[]
+	beginsWith?: unknown
+	contains?: unknown
+	exists?: boolean
+	type?: AttributeType
+}
+
 export interface ScanInputRequestOptions {
 	filterExpressionContext?: 'And' | 'Or'
 }
 
-export interface ScanInputRequest {
+export interface ScanInputRequest
+	extends ExpiryFilterRequest,
+		TombstoneFilterRequest,
+		MarshallingRequest {
 	tableName?: string
-	startKey?: string
+	// LastEvaluatedKey, or a cursor encoded from it
+	startKey?: Key | string
+	cursorOptions?: CursorOptions
 	limit?: number
 	params?: Record<string, unknown>
 	output?: string[]
 	options?: ScanInputRequestOptions
+	filter?: Condition
+	segment?: number
+	totalSegments?: number
+}
+
+export interface ScanSegmentCheckpoint {
+	segment: number
+	lastEvaluatedKey?: Key
+	done: boolean
+}
+
+export interface ScanCheckpoint {
+	totalSegments: number
+	segments: ScanSegmentCheckpoint[]
+}
+
+export interface ParallelScanOptions {
+	totalSegments: number
+	// number of segments scanned at once, defaults to totalSegments
+	concurrency?: number
+	// checkpoint of an interrupted scan to resume from
+	checkpoint?: ScanCheckpoint
+	// retries failed page requests
+	retry?: RetryOptions | RetryPolicy
 }
 
 export interface DynamoRequest {
@@ -123,11 +351,15 @@ export interface DynamoRequest {
 	output?: string[]
 }
 
-export interface EntityRequest {
+export interface EntityRequest extends VersionedRequest, ExpiringRequest {
 	tableName: string
 	key?: Key
 	params?: Record<string, unknown>
 	updatedAt?: number
+	// who deleted the item, on soft-deleting clients
+	deletedBy?: string
+	// includes tombstoned items in reads of soft-deleting clients
+	includeDeleted?: boolean
 }
 
 export interface KeyedEntityRequest {
@@ -145,3 +377,323 @@ export interface QueryEntityRequest {
 export interface CreateEntityRequest extends EntityRequest {
 	createdAt?: number
 }
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>='
+
+export type AttributeType = 'S' | 'SS' | 'N' | 'NS' | 'B' | 'BS' | 'BOOL' | 'NULL' | 'L' | 'M'
+
+export interface SizeOperand {
+	size: string
+}
+
+// An attribute name, or the size of an attribute
+export type Operand = string | SizeOperand
+
+export interface ComparisonCondition {
+	type: 'comparison'
+	operator: ComparisonOperator
+	operand: Operand
+	value: unknown
+}
+
+export interface BetweenCondition {
+	type: 'between'
+	operand: Operand
+	lower: unknown
+	upper: unknown
+}
+
+export interface InCondition {
+	type: 'in'
+	operand: Operand
+	values: unknown[]
+}
+
+export interface BeginsWithCondition {
+	type: 'beginsWith'
+	attribute: string
+	value: unknown
+}
+
+export interface ContainsCondition {
+	type: 'contains'
+	attribute: string
+	value: unknown
+}
+
+export interface AttributeExistsCondition {
+	type: 'attributeExists'
+	attribute: string
+}
+
+export interface AttributeNotExistsCondition {
+	type: 'attributeNotExists'
+	attribute: string
+}
+
+export interface AttributeTypeCondition {
+	type: 'attributeType'
+	attribute: string
+	attributeType: AttributeType
+}
+
+export interface AndCondition {
+	type: 'and'
+	conditions: Condition[]
+}
+
+export interface OrCondition {
+	type: 'or'
+	conditions: Condition[]
+}
+
+export interface NotCondition {
+	type: 'not'
+	condition: Condition
+}
+
+export type Condition =
+	| ComparisonCondition
+	| BetweenCondition
+	| InCondition
+	| BeginsWithCondition
+	| ContainsCondition
+	| AttributeExistsCondition
+	| AttributeNotExistsCondition
+	| AttributeTypeCondition
+	| AndCondition
+	| OrCondition
+	| NotCondition
+
+export interface IfNotExistsFunction {
+	$update: 'ifNotExists'
+	value: unknown
+}
+
+export interface ListAppendFunction {
+	$update: 'listAppend'
+	values: unknown[]
+	prepend?: boolean
+}
+
+// Functions usable as values in the SET clause of an update
+export type UpdateFunction = IfNotExistsFunction | ListAppendFunction
+
+// Conditions DynamoDB accepts on a sort key
+export type KeyCondition = ComparisonCondition | BetweenCondition | BeginsWithCondition
+
+export interface CompiledExpression {
+	expression: string
+	ExpressionAttributeNames: Record<string, string>
+	ExpressionAttributeValues: Record<string, unknown>
+}
+
+export interface BackoffOptions {
+	// retries allowed before giving up
+	maxRetries?: number
+	// base delay in milliseconds
+	baseDelay?: number
+	// maximum delay in milliseconds
+	maxDelay?: number
+	// random number source in [0, 1) used for jitter
+	random?: () => number
+	// delay function, injectable for tests
+	sleep?: (ms: number) => Promise<void>
+}
+
+export interface CircuitBreakerOptions {
+	// consecutive throttled attempts that open the circuit
+	threshold?: number
+	// milliseconds the circuit stays open before letting calls through again
+	cooldown?: number
+}
+
+export interface RetryOptions extends BackoffOptions {
+	// milliseconds a call may take, retries included
+	deadline?: number
+	// whether a failure is retried, by default rate limits, timeouts and connection failures
+	retryable?: (error: DynamoDbError) => boolean
+	// circuit breaker options, or false to never open the circuit
+	circuitBreaker?: CircuitBreakerOptions | false
+	// clock in milliseconds, injectable for tests
+	clock?: () => number
+}
+
+// Call run through a RetryPolicy
+export interface RetryContext extends ErrorContext {
+	// false when repeating an applied call changes its outcome, like conditional writes:
+	// such calls are only retried on failures proving they were not applied
+	idempotent?: boolean
+}
+
+// Payload of the `retry` and `giveUp` events of a RetryPolicy
+export interface RetryEvent extends ErrorContext {
+	// zero-based attempt that failed
+	attempt: number
+	// milliseconds until the next attempt, on retries
+	delay?: number
+	error: DynamoDbError
+}
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen'
+
+// Payload of the `circuit` event of a RetryPolicy
+export interface CircuitEvent {
+	state: CircuitState
+	// consecutive throttled attempts
+	throttled: number
+}
+
+// how to resolve two writes to the same key within one batch
+export type DuplicatePolicy = 'lastWriteWins' | 'firstWins' | 'error'
+
+export interface BulkifyOptions extends MarshallingRequest {
+	// maximum write requests per batch
+	size?: number
+	// maximum request bytes per batch
+	maxBatchBytes?: number
+	// key attribute names per table, needed to detect duplicate puts
+	keys?: Record<string, string[]>
+	duplicates?: DuplicatePolicy
+}
+
+export interface BulkExecuteOptions extends BackoffOptions {
+	// number of batch requests in flight at once
+	concurrency?: number
+	// retries failed batch requests, unprocessed items are retried with the backoff options
+	retry?: RetryOptions | RetryPolicy
+}
+
+export interface BulkWriteSummary {
+	// requests written
+	written: number
+	// requests re-sent after being returned as unprocessed or throttled
+	retried: number
+	// requests of batches that failed with a non-throttling error
+	failed: number
+	// translated failures of those batches
+	errors: DynamoDbError[]
+}
+
+export interface BulkGetTableOptions {
+	// attributes to return, key attributes are always included
+	projection?: string[]
+	consistentRead?: boolean
+}
+
+export interface BulkGetOptions extends MarshallingRequest {
+	// expected item size in bytes, used to keep each chunk within the 16 MB response limit
+	estimatedItemSize?: number
+}
+
+export interface BulkGetResult {
+	tableName: string
+	key: Record<string, unknown>
+	// null when no item exists for the key
+	item: Record<string, unknown> | null
+}
+
+export interface TransactWriteOptions extends MarshallingRequest {
+	// key attribute names per table, needed to match puts against other operations
+	keys?: Record<string, string[]>
+	// idempotency token, a retried transaction with the same token is not applied twice
+	clientRequestToken?: string
+	// retries canceled transactions whose operations only conflicted or were throttled
+	retry?: RetryOptions | RetryPolicy
+}
+
+export type TransactWriteOperationType = 'put' | 'update' | 'delete' | 'conditionCheck'
+
+// Why one operation of a canceled transaction was rejected
+export interface CanceledOperation {
+	// position of the operation in the transaction
+	index: number
+	// get for operations of TransactGet
+	type: TransactWriteOperationType | 'get'
+	tableName: string
+	// key of the item, when known for puts
+	key?: Record<string, unknown>
+	// e.g. ConditionalCheckFailed, TransactionConflict, ThrottlingError, or None if the operation
+	// didn't cause the cancellation
+	code: string
+	message?: string
+	// old item, returned when ReturnValuesOnConditionCheckFailure is ALL_OLD
+	item?: Record<string, unknown>
+}
+
+export interface TransactGetOptions extends MarshallingRequest {
+	// retries failed transactions
+	retry?: RetryOptions | RetryPolicy
+}
+
+export interface EntityAttribute<V = unknown> {
+	type: AttributeType
+	required?: boolean
+	// value, or a function returning one, used when the attribute is missing on put
+	default?: V | (() => V)
+}
+
+export interface EntityKeySchema<T> {
+	partitionKey: keyof T & string
+	sortKey?: keyof T & string
+}
+
+export interface EntityDefinition<T extends Record<string, unknown>> {
+	tableName: string
+	key: EntityKeySchema<T>
+	// key schemas of the secondary indexes, by index name
+	indexes?: Record<string, EntityKeySchema<T>>
+	attributes: { [K in keyof T]?: EntityAttribute<T[K]> }
+	// attributes derived from the rest of the item on put
+	computed?: { [K in keyof T]?: (item: Partial<T>) => T[K] }
+	// composite key templates by attribute, such as `USER#{userId}`
+	templates?: { [K in keyof T]?: string }
+	// discriminator written to every item of the entity
+	entityType?: string
+	// attribute holding the discriminator, `entityType` by default
+	typeAttribute?: string
+	// version attribute, enables optimistic locking on every write
+	versionAttribute?: string
+	// stamps creation and update times on put and update
+	timestamps?: TimestampOptions
+	// deletes mark items as deleted, and reads hide them
+	softDelete?: SoftDeleteOptions
+	// sets the expiry of items on put and update, unless a write passes its own
+	ttl?: TtlOptions
+	// retries failed calls, a policy can be shared to share its circuit breaker
+	retry?: RetryOptions | RetryPolicy
+}
+
+export interface EntityWriteOptions extends ConditionalRequest {
+	// version the item was read at, instead of the version attribute of the given item
+	expectedVersion?: number
+}
+
+export interface EntityPutOptions extends EntityWriteOptions, ExpiringRequest {}
+
+export interface EntityUpdateOptions extends EntityWriteOptions, UpdateActions, ExpiringRequest {}
+
+export interface EntityDeleteOptions extends EntityWriteOptions {
+	// who deletes the item, on soft-deleting entities
+	deletedBy?: string
+}
+
+export interface EntityReadOptions {
+	// includes tombstones of soft-deleting entities
+	includeDeleted?: boolean
+}
+
+export interface EntityQueryOptions extends FilteredRequest, EntityReadOptions {
+	indexName?: string
+	sortKey?: KeyCondition
+	scanIndexForward?: boolean
+	limit?: number
+	// LastEvaluatedKey, or a cursor encoded from it
+	nextToken?: Key | string
+	cursorOptions?: CursorOptions
+}
+
+export interface EntityPage<T> {
+	items: T[]
+	lastEvaluatedKey?: Key
+}
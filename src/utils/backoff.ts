@@ -0,0 +1,44 @@
+import { BackoffOptions } from '../types'
+
+/**
+ * Default backoff configuration
+ */
+export const DEFAULT_BACKOFF_OPTIONS: Required<Omit<BackoffOptions, 'random' | 'sleep'>> = {
+	maxRetries: 8,
+	baseDelay: 50,
+	maxDelay: 5000
+}
+
+/**
+ * SDK error names raised when a table or account is throttled
+ */
+const THROTTLING_ERRORS = [
+	'ProvisionedThroughputExceededException',
+	'ThrottlingException',
+	'RequestLimitExceeded'
+]
+
+/**
+ * Check whether an SDK error is a throttling error
+ * @param e Error thrown by the client
+ */
+export const isThrottlingError = (e: any): boolean => THROTTLING_ERRORS.includes(e?.name)
+
+/**
+ * Wait for a number of milliseconds
+ * @param ms Milliseconds to wait
+ */
+export const sleep = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Compute an exponential backoff delay with full jitter
+ * @param attempt Zero-based retry attempt
+ * @param options Backoff options
+ * @returns Delay in milliseconds
+ */
+export const backoffDelay = (attempt: number, options: BackoffOptions = {}): number => {
+	const { baseDelay, maxDelay } = { ...DEFAULT_BACKOFF_OPTIONS, ...options }
+	const random = options.random || Math.random
+	return Math.floor(random() * Math.min(maxDelay, baseDelay * 2 ** attempt))
+}
@@ -0,0 +1,97 @@
+import { SoftDeleteOptions, VersionOptions } from '../types'
+import { DynamoDbError, ItemNotFoundError, VersionConflictError } from '../errors'
+import { isDeleted } from './tombstone'
+
+/**
+ * A conditional write whose failed condition checks are mapped to errors
+ */
+export interface ConditionalWrite {
+	tableName: string
+	key: Record<string, unknown>
+	// expected version of a versioned write
+	version?: VersionOptions
+	softDelete?: SoftDeleteOptions
+	// condition of the caller, whose failures are left to the caller
+	condition?: unknown
+}
+
+/**
+ * Check whether an SDK error is a failed condition check
+ * @param e Error thrown by the client
+ */
+export const isConditionalCheckFailed = (e: any): boolean =>
+	e?.name === 'ConditionalCheckFailedException'
+
+/**
+ * Whether an item exists and is not a tombstone of a soft-deleting table
+ * @param item Item, such as the old item returned by a failed condition check
+ * @param softDelete Soft-delete options of the table
+ */
+export const isLive = (item?: Record<string, unknown>, softDelete?: SoftDeleteOptions): boolean =>
+	!!item && !(softDelete && isDeleted(item, softDelete))
+
+/**
+ * Drop a tombstone from a GetItem result, since GetItem can't filter
+ * @param item Item returned by GetItem
+ * @param softDelete Soft-delete options of the table
+ * @param includeDeleted Whether tombstones are returned
+ * @returns The item, or undefined for misses and hidden tombstones
+ */
+export const visibleItem = <T extends Record<string, unknown>>(
+	item: T | undefined,
+	softDelete?: SoftDeleteOptions,
+	includeDeleted?: boolean
+): T | undefined => (includeDeleted || isLive(item, softDelete) ? item : undefined)
+
+/**
+ * Whether a failed soft delete is a no-op: like deletes of missing items,
+ * soft deletes of missing or deleted items succeed
+ * @param e Error thrown by the client
+ * @param write The soft delete
+ */
+export const isNoOpDelete = (e: any, write: ConditionalWrite): boolean =>
+	isConditionalCheckFailed(e) &&
+	!write.condition &&
+	!!write.softDelete &&
+	!isLive(e.Item, write.softDelete)
+
+/**
+ * Map the failed condition check of a write to the error it means.
+ * Versioned writes request the old item on failures, which is only returned when it exists,
+ * so an old item means the version didn't match and no item means it was not found.
+ * @param operation Operation of the write, `put`, `update`, `delete` or `restore`
+ * @param e Error thrown by the client
+ * @param write The write
+ * @returns The error, or undefined if the failure isn't a condition check of the write itself
+ */
+export const conditionFailure = (
+	operation: 'put' | 'update' | 'delete' | 'restore',
+	e: any,
+	write: ConditionalWrite
+): DynamoDbError | undefined => {
+	if (!isConditionalCheckFailed(e) || write.condition) {
+		return undefined
+	}
+	const { tableName, key, version, softDelete } = write
+	switch (operation) {
+		case 'put':
+			// puts only check the version
+			return version && new VersionConflictError(tableName, key, version.expected, 'create')
+		case 'restore':
+			// only tombstones can be restored, so a tombstone means the version didn't match
+			return version && isDeleted(e.Item, softDelete)
+				? new VersionConflictError(tableName, key, version.expected)
+				: new ItemNotFoundError(tableName, key)
+		case 'delete':
+			if (!version) {
+				return undefined
+			}
+			return isLive(e.Item, softDelete)
+				? new VersionConflictError(tableName, key, version.expected, 'delete')
+				: new ItemNotFoundError(tableName, key)
+		default:
+			return version && isLive(e.Item, softDelete)
+				? new VersionConflictError(tableName, key, version.expected)
+				: new ItemNotFoundError(tableName, key)
+	}
+}
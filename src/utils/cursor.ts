@@ -0,0 +1,91 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { CursorOptions, Key } from '../types'
+import { ValidationError } from '../errors'
+import { getCurrentTimestamp } from './timestamp'
+
+interface CursorPayload {
+	// LastEvaluatedKey
+	k: Key
+	// expiry, epoch seconds
+	e?: number
+}
+
+const toBase64Url = (buffer: Buffer): string =>
+	buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (value: string): Buffer =>
+	Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+
+/**
+ * Sign an encoded payload, binding it to the cursor scope
+ * @param payload Encoded payload
+ * @param options Cursor options
+ */
+const sign = (payload: string, options: CursorOptions): Buffer =>
+	createHmac('sha256', options.secret as string)
+		.update(`${options.scope || ''}.${payload}`)
+		.digest()
+
+/**
+ * Encode a LastEvaluatedKey into an opaque, URL-safe cursor
+ * @param key LastEvaluatedKey to encode
+ * @param options Signing secret, scope and time to live
+ * @returns Cursor string
+ */
+export const encodeCursor = (key: Key, options: CursorOptions = {}): string => {
+	const now = Math.floor((options.clock || getCurrentTimestamp)() / 1000)
+	const body: CursorPayload = { k: key }
+	if (options.ttl) {
+		body.e = now + options.ttl
+	}
+	const payload = toBase64Url(Buffer.from(JSON.stringify(body)))
+	return options.secret ? `${payload}.${toBase64Url(sign(payload, options))}` : payload
+}
+
+/**
+ * Decode and validate a cursor back into a LastEvaluatedKey
+ * @param cursor Cursor string
+ * @param options Options the cursor was encoded with
+ * @returns {Key}
+ * @throws {ValidationError} If the cursor is malformed, unsigned, tampered with or expired
+ */
+export const decodeCursor = (cursor: string, options: CursorOptions = {}): Key => {
+	const [payload, signature, ...rest] = cursor.split('.')
+	if (!payload || rest.length) {
+		throw new ValidationError('Invalid cursor')
+	}
+	if (options.secret) {
+		if (!signature) {
+			throw new ValidationError('Cursor is not signed')
+		}
+		const expected = sign(payload, options)
+		const actual = fromBase64Url(signature)
+		if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+			throw new ValidationError('Cursor signature is invalid')
+		}
+	}
+	let body: CursorPayload
+	try {
+		body = JSON.parse(fromBase64Url(payload).toString('utf8'))
+	} catch (e) {
+		throw new ValidationError('Invalid cursor')
+	}
+	if (typeof body !== 'object' || body === null || typeof body.k !== 'object' || body.k === null) {
+		throw new ValidationError('Invalid cursor')
+	}
+	const now = Math.floor((options.clock || getCurrentTimestamp)() / 1000)
+	if (body.e !== undefined && body.e <= now) {
+		throw new ValidationError('Cursor has expired')
+	}
+	return body.k
+}
+
+/**
+ * Resolve a start key given either as a key or as a cursor
+ * @param token Key or cursor string
+ * @param options Cursor options
+ */
+export const resolveStartKey = (
+	token: Key | string | undefined,
+	options?: CursorOptions
+): Key | undefined => (typeof token === 'string' ? decodeCursor(token, options) : token)
@@ -0,0 +1,364 @@
+import {
+	AndCondition,
+	AttributeExistsCondition,
+	AttributeNotExistsCondition,
+	AttributeType,
+	AttributeTypeCondition,
+	BeginsWithCondition,
+	BetweenCondition,
+	CompiledExpression,
+	ComparisonCondition,
+	ComparisonOperator,
+	Condition,
+	ContainsCondition,
+	IfNotExistsFunction,
+	InCondition,
+	ListAppendFunction,
+	NotCondition,
+	Operand,
+	OperatorDescriptor,
+	OrCondition,
+	SizeOperand,
+	UpdateFunction
+} from '../types'
+import { ValidationError } from '../errors'
+import { isReservedWord } from '../reserved'
+import { isPlainObject } from 'lodash'
+
+/**
+ * Names a placeholder can be made of
+ */
+const PLACEHOLDER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Names usable as they are in expressions
+ */
+const PLAIN_NAME = /^[A-Za-z][A-Za-z0-9_]*$/
+
+/**
+ * Placeholder allocator shared by every expression of a single request,
+ * so names and values never collide across key, filter and condition expressions
+ */
+export class ExpressionContext {
+	readonly names: Record<string, string>
+	readonly values: Record<string, unknown>
+
+	constructor(names: Record<string, string> = {}, values: Record<string, unknown> = {}) {
+		this.names = { ...names }
+		this.values = { ...values }
+	}
+
+	/**
+	 * Get the placeholder for an attribute name, reusing an existing one if present.
+	 * Names with dots, dashes, spaces or other characters a placeholder can't hold get `#n0`, `#n1`...
+	 * @param attribute Attribute name
+	 * @returns Name placeholder
+	 */
+	name(attribute: string): string {
+		const existing = Object.keys(this.names).find((token) => this.names[token] === attribute)
+		if (existing) {
+			return existing
+		}
+		let token = `#${attribute}`
+		if (!PLACEHOLDER_NAME.test(attribute) || this.names[token] !== undefined) {
+			token = this.nextFree('#n', this.names)
+		}
+		this.names[token] = attribute
+		return token
+	}
+
+	/**
+	 * Refer to an attribute name as it is, unless it is reserved or needs escaping
+	 * @param attribute Attribute name
+	 * @returns The name, or its placeholder
+	 */
+	reference(attribute: string): string {
+		return PLAIN_NAME.test(attribute) && !isReservedWord(attribute)
+			? attribute
+			: this.name(attribute)
+	}
+
+	/**
+	 * Allocate a placeholder for a value
+	 * @param value Attribute value
+	 * @returns Value placeholder
+	 */
+	value(value: unknown): string {
+		const token = this.nextFree(':v', this.values)
+		this.values[token] = value
+		return token
+	}
+
+	/**
+	 * Find the first unused placeholder with the given prefix
+	 * @param prefix Placeholder prefix
+	 * @param collection Placeholder map to check against
+	 */
+	private nextFree(prefix: string, collection: Record<string, unknown>): string {
+		let index = 0
+		while (collection[`${prefix}${index}`] !== undefined) {
+			index++
+		}
+		return `${prefix}${index}`
+	}
+}
+
+/**
+ * Compile an operand into its expression form
+ * @param operand Attribute name or size operand
+ * @param context Expression context
+ */
+const compileOperand = (operand: Operand, context: ExpressionContext): string =>
+	typeof operand === 'string' ? context.name(operand) : `size(${context.name(operand.size)})`
+
+/**
+ * Compile the children of a logical condition, wrapping compound children in parentheses
+ * @param conditions Child conditions
+ * @param context Expression context
+ */
+const compileChildren = (conditions: Condition[], context: ExpressionContext): string[] =>
+	conditions.map((child) => {
+		const expression = compileCondition(child, context)
+		return ['and', 'or', 'not'].includes(child.type) ? `(${expression})` : expression
+	})
+
+/**
+ * Compile a condition into an expression string, registering its placeholders on the context
+ * @param condition Condition to compile
+ * @param context Expression context
+ * @returns Expression string
+ * @throws {ValidationError} If the condition is malformed
+ */
+export const compileCondition = (condition: Condition, context: ExpressionContext): string => {
+	switch (condition.type) {
+		case 'comparison':
+			return `${compileOperand(condition.operand, context)} ${condition.operator} ${context.value(
+				condition.value
+			)}`
+		case 'between':
+			return `${compileOperand(condition.operand, context)} BETWEEN ${context.value(
+				condition.lower
+			)} AND ${context.value(condition.upper)}`
+		case 'in':
+			if (!condition.values.length) {
+				throw new ValidationError('IN condition requires at least one value')
+			}
+			if (condition.values.length > 100) {
+				throw new ValidationError('IN condition must not exceed 100 values')
+			}
+			return `${compileOperand(condition.operand, context)} IN (${condition.values
+				.map((value) => context.value(value))
+				.join(', ')})`
+		case 'beginsWith':
+			return `begins_with(${context.name(condition.attribute)}, ${context.value(condition.value)})`
+		case 'contains':
+			return `contains(${context.name(condition.attribute)}, ${context.value(condition.value)})`
+		case 'attributeExists':
+			return `attribute_exists(${context.name(condition.attribute)})`
+		case 'attributeNotExists':
+			return `attribute_not_exists(${context.name(condition.attribute)})`
+		case 'attributeType':
+			return `attribute_type(${context.name(condition.attribute)}, ${context.value(
+				condition.attributeType
+			)})`
+		case 'and':
+		case 'or':
+			if (!condition.conditions.length) {
+				throw new ValidationError(`${condition.type.toUpperCase()} condition requires conditions`)
+			}
+			return compileChildren(condition.conditions, context).join(
+				` ${condition.type.toUpperCase()} `
+			)
+		case 'not':
+			return `NOT ${compileChildren([condition.condition], context)[0]}`
+		default:
+			throw new ValidationError(`Unsupported condition type: ${(condition as any).type}`)
+	}
+}
+
+/**
+ * Compile a condition into an expression with its attribute name and value maps
+ * @param condition Condition to compile
+ * @param context Optional context to allocate placeholders from
+ * @returns {CompiledExpression}
+ */
+export const buildConditionExpression = (
+	condition: Condition,
+	context: ExpressionContext = new ExpressionContext()
+): CompiledExpression => ({
+	expression: compileCondition(condition, context),
+	ExpressionAttributeNames: context.names,
+	ExpressionAttributeValues: context.values
+})
+
+const comparison =
+	(operator: ComparisonOperator) =>
+	(operand: Operand, value: unknown): ComparisonCondition => ({
+		type: 'comparison',
+		operator,
+		operand,
+		value
+	})
+
+export const eq = comparison('=')
+export const ne = comparison('<>')
+export const lt = comparison('<')
+export const lte = comparison('<=')
+export const gt = comparison('>')
+export const gte = comparison('>=')
+
+export const between = (operand: Operand, lower: unknown, upper: unknown): BetweenCondition => ({
+	type: 'between',
+	operand,
+	lower,
+	upper
+})
+
+export const isIn = (operand: Operand, values: unknown[]): InCondition => ({
+	type: 'in',
+	operand,
+	values
+})
+
+export const beginsWith = (attribute: string, value: unknown): BeginsWithCondition => ({
+	type: 'beginsWith',
+	attribute,
+	value
+})
+
+export const contains = (attribute: string, value: unknown): ContainsCondition => ({
+	type: 'contains',
+	attribute,
+	value
+})
+
+export const attributeExists = (attribute: string): AttributeExistsCondition => ({
+	type: 'attributeExists',
+	attribute
+})
+
+export const attributeNotExists = (attribute: string): AttributeNotExistsCondition => ({
+	type: 'attributeNotExists',
+	attribute
+})
+
+export const attributeType = (attribute: string, type: AttributeType): AttributeTypeCondition => ({
+	type: 'attributeType',
+	attribute,
+	attributeType: type
+})
+
+export const size = (attribute: string): SizeOperand => ({ size: attribute })
+
+export const and = (...conditions: Condition[]): AndCondition => ({ type: 'and', conditions })
+
+export const or = (...conditions: Condition[]): OrCondition => ({ type: 'or', conditions })
+
+export const not = (condition: Condition): NotCondition => ({ type: 'not', condition })
+
+export const ifNotExists = (value: unknown): IfNotExistsFunction => ({
+	$update: 'ifNotExists',
+	value
+})
+
+export const listAppend = (values: unknown[], prepend = false): ListAppendFunction => ({
+	$update: 'listAppend',
+	values,
+	prepend
+})
+
+/**
+ * Check whether a SET value is an update function
+ * @param value Value to check
+ */
+export const isUpdateFunction = (value: unknown): value is UpdateFunction =>
+	typeof value === 'object' &&
+	value !== null &&
+	['ifNotExists', 'listAppend'].includes((value as UpdateFunction).$update)
+
+/**
+ * Compile the right-hand side of a SET action
+ * @param token Name placeholder of the attribute being set
+ * @param filter Value placeholder
+ * @param fn Update function
+ */
+export const compileUpdateFunction = (
+	token: string,
+	filter: string,
+	fn: UpdateFunction
+): string => {
+	switch (fn.$update) {
+		case 'ifNotExists':
+			return `if_not_exists(${token}, ${filter})`
+		case 'listAppend':
+			return fn.prepend ? `list_append(${filter}, ${token})` : `list_append(${token}, ${filter})`
+	}
+}
+
+/**
+ * Get the value an update function writes
+ * @param fn Update function
+ */
+export const updateFunctionValue = (fn: UpdateFunction): unknown =>
+	fn.$update === 'ifNotExists' ? fn.value : fn.values
+
+/**
+ * Check whether a param value is an operator descriptor such as `{ gt: 5 }`
+ * @param value Value to check
+ */
+export const isOperatorDescriptor = (value: unknown): value is OperatorDescriptor =>
+	isPlainObject(value)
+
+/**
+ * Convert an operator descriptor into a condition on an attribute
+ * @param attribute Attribute name
+ * @param descriptor Operator descriptor
+ * @returns {Condition}
+ * @throws {ValidationError} If the descriptor is empty or uses an unsupported operator
+ */
+export const descriptorCondition = (
+	attribute: string,
+	descriptor: OperatorDescriptor
+): Condition => {
+	const conditions = Object.keys(descriptor).map((operator: string): Condition => {
+		const value = descriptor[operator]
+		switch (operator) {
+			case 'eq':
+				return eq(attribute, value)
+			case 'ne':
+				return ne(attribute, value)
+			case 'lt':
+				return lt(attribute, value)
+			case 'lte':
+				return lte(attribute, value)
+			case 'gt':
+				return gt(attribute, value)
+			case 'gte':
+				return gte(attribute, value)
+			case 'between':
+				if (!Array.isArray(value) || value.length !== 2) {
+					throw new ValidationError(`between on ${attribute} requires a [lower, upper] pair`)
+				}
+				return between(attribute, value[0], value[1])
+			case 'in':
+				if (!Array.isArray(value) || !value.length) {
+					throw new ValidationError(`in on ${attribute} requires a list of values`)
+				}
+				return isIn(attribute, value)
+			case 'beginsWith':
+				return beginsWith(attribute, value)
+			case 'contains':
+				return contains(attribute, value)
+			case 'exists':
+				return value ? attributeExists(attribute) : attributeNotExists(attribute)
+			case 'type':
+				return attributeType(attribute, value)
+			default:
+				throw new ValidationError(`Unsupported operator ${operator} on ${attribute}`)
+		}
+	})
+	if (!conditions.length) {
+		throw new ValidationError(`No operator given for ${attribute}`)
+	}
+	return conditions.length > 1 ? and(...conditions) : conditions[0]
+}
@@ -3,33 +3,169 @@ import {
 	QueryItemRequest,
 	DeleteItemRequest,
 	GetItemRequest,
-	ScanInputRequest
+	ScanInputRequest,
+	UpdateItemRequest,
+	ConditionCheckRequest,
+	Condition,
+	KeyCondition,
+	VersionOptions,
+	SoftDeleteItemRequest,
+	RestoreItemRequest
 } from '../types'
 
-import reservedWords from '../reserved'
-import { isEmpty } from 'lodash'
+import { isEmpty, uniq } from 'lodash'
 import {
 	AttributeValue,
+	ConditionCheck,
 	DeleteItemInput,
 	GetItemInput,
 	PutItemInput,
 	QueryInput,
 	UpdateItemInput
 } from '@aws-sdk/client-dynamodb'
+import {
+	ExpressionContext,
+	and,
+	attributeExists,
+	attributeNotExists,
+	compileCondition,
+	compileUpdateFunction,
+	contains,
+	descriptorCondition,
+	eq,
+	ifNotExists,
+	isOperatorDescriptor,
+	isUpdateFunction,
+	updateFunctionValue
+} from './expression'
+import { resolveStartKey } from './cursor'
+import { marshallInput } from './marshall'
+import { formatTimestamp, getCurrentTimestamp, timestampAttributes } from './timestamp'
+import { expiresAt, notExpired, ttlAttribute } from './ttl'
+import { notDeleted, tombstoneAttributes } from './tombstone'
+import { validateKey } from './validation'
+import { ValidationError } from '../errors'
+
+/**
+ * Letter of the value placeholders named after an attribute, `v` for names not starting with one
+ * @param attr Attribute name
+ */
+const valuePrefix = (attr: string): string => (/^[A-Za-z]/.test(attr) ? attr.charAt(0) : 'v')
+
+/**
+ * Ensure a sort key condition only uses operators DynamoDB allows in key conditions
+ * @param condition Sort key condition
+ * @throws {ValidationError} If the condition is not a valid key condition
+ */
+const validateKeyCondition = (condition: KeyCondition): KeyCondition => {
+	if (!['comparison', 'between', 'beginsWith'].includes(condition.type)) {
+		throw new ValidationError(`Unsupported sort key condition: ${condition.type}`)
+	}
+	if (condition.type === 'comparison' && condition.operator === '<>') {
+		throw new ValidationError('Sort key conditions do not support the <> operator')
+	}
+	if (condition.type !== 'beginsWith' && typeof condition.operand !== 'string') {
+		throw new ValidationError('Sort key conditions must target an attribute')
+	}
+	return condition
+}
+
+/**
+ * Compile a condition into the given expression field of a builder's input,
+ * sharing the placeholder maps the builder has already populated
+ * @param options Builder input
+ * @param field Expression field to set
+ * @param condition Condition to compile
+ */
+const applyCondition = <T>(
+	options: T,
+	field: 'ConditionExpression' | 'FilterExpression',
+	condition?: Condition
+): T => {
+	if (!condition) {
+		return options
+	}
+	const input: any = options
+	const context = new ExpressionContext(
+		input.ExpressionAttributeNames,
+		input.ExpressionAttributeValues
+	)
+	const expression = compileCondition(condition, context)
+	input[field] = input[field] ? `(${input[field]}) AND (${expression})` : expression
+	if (!isEmpty(context.names)) {
+		input.ExpressionAttributeNames = context.names
+	}
+	if (!isEmpty(context.values)) {
+		input.ExpressionAttributeValues = context.values
+	}
+	return options
+}
+
+/**
+ * Resolve the version attribute of a versioned write and the condition on its stored value
+ * @param version Versioning options
+ * @param condition Condition of the request, combined with the version check
+ * @throws {ValidationError} If the expected version is not a non-negative integer
+ */
+const versionCheck = (
+	version: VersionOptions,
+	condition?: Condition
+): { attribute: string; next: number; condition: Condition } => {
+	const attribute = version.attribute || 'version'
+	const { expected } = version
+	if (expected !== undefined && !(Number.isInteger(expected) && expected >= 0)) {
+		throw new ValidationError(`Expected version must be a non-negative integer: ${expected}`)
+	}
+	const check = expected === undefined ? attributeNotExists(attribute) : eq(attribute, expected)
+	return {
+		attribute,
+		next: (expected || 0) + 1,
+		condition: condition ? and(condition, check) : check
+	}
+}
 
 /**
  * Build Put Item Input for Dynamo DB operation
  * @param request
+ * @param {VersionOptions} request.version Writes the next version, conditioned on the expected one
+ * @param {TimestampOptions} request.timestamps Stamps the update time, and the creation time
+ * unless the given item has one, replacing the stored creation time
+ * @param {TtlOptions} request.ttl Sets the TTL attribute to the expiry
  * @returns {PutItemInput}
+ * @throws {ValidationError} If the expected version, the clock's timestamp or the TTL is invalid
  */
-export const buildPutInput = ({ tableName, params }: PutItemRequest): PutItemInput => ({
-	TableName: tableName,
-	Item: params as Record<string, AttributeValue> | undefined
-})
+export const buildPutInput = ({
+	tableName,
+	params,
+	condition,
+	version,
+	timestamps,
+	ttl,
+	mode
+}: PutItemRequest): PutItemInput => {
+	const options: any = { TableName: tableName, Item: params }
+	if (timestamps) {
+		const { createdAt, updatedAt, now } = timestampAttributes(timestamps)
+		options.Item = { [createdAt]: now, ...options.Item, [updatedAt]: now }
+	}
+	if (ttl) {
+		options.Item = { ...options.Item, [ttlAttribute(ttl)]: expiresAt(ttl.expiresIn, ttl) }
+	}
+	if (version) {
+		const check = versionCheck(version, condition)
+		options.Item = { ...options.Item, [check.attribute]: check.next }
+		// the stored item tells a version conflict from other failures
+		options.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+		condition = check.condition
+	}
+	return marshallInput(applyCondition(options, 'ConditionExpression', condition), mode)
+}
 
 /**
  * Build Scan Input for Dynamo DB operation
  * @param {any} request
+ * @param {ExpiryOptions} request.excludeExpired Filters out items whose TTL has passed
+ * @param {SoftDeleteOptions} request.softDelete Filters out tombstones unless `includeDeleted` is set
  * @returns {ScanInput}
  */
 export const buildScanInput = (request: ScanInputRequest) => {
@@ -39,10 +175,12 @@ export const buildScanInput = (request: ScanInputRequest) => {
 		Select: 'ALL_ATTRIBUTES'
 	}
 	if (request.startKey) {
-		options.ExclusiveStartKey = request.startKey
+		options.ExclusiveStartKey = resolveStartKey(request.startKey, request.cursorOptions)
+	}
+	if (request.totalSegments !== undefined) {
+		options.Segment = request.segment || 0
+		options.TotalSegments = request.totalSegments
 	}
-	// create projection collections
-	const projection: string[] = []
 	// if request has params map
 	if (request.params) {
 		// get the param attribute names
@@ -50,57 +188,94 @@ export const buildScanInput = (request: ScanInputRequest) => {
 		// create the filter express collection
 		const filterExpressions: string[] = []
 		// define the Expression Context
-		options.ExpressionAttributeNames = {}
-		options.ExpressionAttributeValues = {}
+		const context = new ExpressionContext()
+		const filterExpressionContext = request.options?.filterExpressionContext || 'And'
 		// loop through the attributes and format the request
 		paramAttrs.forEach((attr: string, index: number) => {
-			// create token string
-			const token: string = `#${attr}`
-			// push the token to the projection
-			projection.push(token)
 			// create filter string
-			let filter: string = `:${attr.charAt(0)}${index}`
+			let filter: string = `:${valuePrefix(attr)}${index}`
 
-			// add attribute to expressions
-			options.ExpressionAttributeNames[token] = attr
 			// set value cache
 			const value = request.params[attr]
-			if (value) {
-				if (Array.isArray(value)) {
-					filterExpressions.push(`contains(${token}, ${filter})`)
-					options.ExpressionAttributeValues[filter] = value[0]
-				} else if (typeof value === 'string') {
-					filterExpressions.push(`${token} = ${filter}`)
-					options.ExpressionAttributeValues[filter] = value
-				} else if (typeof value === 'number') {
-					filterExpressions.push(`${token} = ${filter}`)
-					options.ExpressionAttributeValues[filter] = value
-				} else if (typeof value === 'object') {
-					// TODO: conditional scan
+			if (value === undefined) {
+				return
+			}
+			if (Array.isArray(value) || value instanceof Set) {
+				// every element must (or may) be contained, following the filter context
+				const expressions = Array.from(value).map((element) =>
+					compileCondition(contains(attr, element), context)
+				)
+				if (expressions.length) {
+					filterExpressions.push(
+						expressions.length > 1
+							? `(${expressions.join(` ${filterExpressionContext} `)})`
+							: expressions[0]
+					)
+				}
+			} else if (isOperatorDescriptor(value)) {
+				// conditional scan
+				const condition = descriptorCondition(attr, value)
+				const expression = compileCondition(condition, context)
+				filterExpressions.push(condition.type === 'and' ? `(${expression})` : expression)
+			} else {
+				// fall back to a free placeholder if a condition already took this one
+				if (context.values.hasOwnProperty(filter)) {
+					filter = context.value(value)
+				} else {
+					context.values[filter] = value
 				}
+				filterExpressions.push(`${context.name(attr)} = ${filter}`)
 			}
 		})
-		const filterExpressionContext = options?.filterExpressionContext || 'And'
+		// DynamoDB rejects empty and unused placeholder maps
+		if (!isEmpty(context.names)) {
+			options.ExpressionAttributeNames = context.names
+		}
+		if (!isEmpty(context.values)) {
+			options.ExpressionAttributeValues = context.values
+		}
 		// set the filter expression
-		options.FilterExpression = filterExpressions.join(` ${filterExpressionContext} `)
+		if (filterExpressions.length) {
+			options.FilterExpression = filterExpressions.join(` ${filterExpressionContext} `)
+		}
 	}
-	// check to see if there are different projection attributes
-	if (request.output) {
-		const output = request.output.filter((x) => !request.params[x])
-		projection.push(...output)
+	applyCondition(options, 'FilterExpression', request.filter)
+	if (request.excludeExpired) {
+		applyCondition(options, 'FilterExpression', notExpired(request.excludeExpired))
 	}
-	// set the project expression
-	if (projection.length && options.Select !== 'ALL_ATTRIBUTES') {
-		options.ProjectionExpression = projection.join(', ')
+	if (request.softDelete && !request.includeDeleted) {
+		applyCondition(options, 'FilterExpression', notDeleted(request.softDelete))
 	}
-	return options
+	// project the filtered attributes and the requested output
+	if (request.output?.length) {
+		const context = new ExpressionContext(
+			options.ExpressionAttributeNames,
+			options.ExpressionAttributeValues
+		)
+		const projection = uniq([...Object.keys(request.params || {}), ...request.output])
+		options.Select = 'SPECIFIC_ATTRIBUTES'
+		options.ProjectionExpression = projection.map((attr) => context.name(attr)).join(', ')
+		options.ExpressionAttributeNames = context.names
+	}
+	return marshallInput(options, request.mode)
 }
 
 /**
  * Build Update Item Input for Dynamo DB operation
  * @param request
+ * @param {object} request.params SET clause, values may be `ifNotExists`/`listAppend` functions
+ * @param {string[]} request.remove REMOVE clause
+ * @param {object} request.add ADD clause for counters and sets
+ * @param {object} request.delete DELETE clause for sets
+ * @param {VersionOptions} request.version Increments the version, conditioned on the expected one
+ * @param {TimestampOptions} request.timestamps Stamps the update time, and the creation time
+ * with `if_not_exists`
+ * @param {TtlOptions} request.ttl Sets the TTL attribute to the expiry
+ * @returns {UpdateItemInput}
+ * @throws {ValidationError} If the request has no update actions, updates an attribute twice,
+ * or the expected version, the clock's timestamp or the TTL is invalid
  */
-export const buildUpdateInput = (request: any): UpdateItemInput => {
+export const buildUpdateInput = (request: UpdateItemRequest): UpdateItemInput => {
 	const options: any = {
 		TableName: request.tableName,
 		Key: request.key,
@@ -108,77 +283,177 @@ export const buildUpdateInput = (request: any): UpdateItemInput => {
 		ExpressionAttributeValues: {},
 		UpdateExpression: ''
 	}
+	let { add, condition } = request
+	if (request.version) {
+		// ADD increments the stored version atomically
+		const check = versionCheck(request.version, condition)
+		add = { ...add, [check.attribute]: 1 }
+		condition = check.condition
+		options.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+	}
+	let params = request.params || {}
+	if (request.timestamps) {
+		const { createdAt, updatedAt, now } = timestampAttributes(request.timestamps)
+		params = { ...params, [updatedAt]: now, [createdAt]: ifNotExists(now) }
+	}
+	if (request.ttl) {
+		params = {
+			...params,
+			[ttlAttribute(request.ttl)]: expiresAt(request.ttl.expiresIn, request.ttl)
+		}
+	}
 	const updateExpressions: string[] = []
-	const paramAttrs: string[] = Object.keys(request.params)
-	const expressionNames: any = {}
+	const paramAttrs: string[] = Object.keys(params)
+	const context = new ExpressionContext()
 
 	paramAttrs.forEach((attr: string, index: number) => {
 		// create expression attribute filter
-		let filter: string = `:${attr.charAt(0)}${index}`
+		const filter: string = `:${valuePrefix(attr)}${index}`
 		// get and assign the value
-		const value = request.params[attr]
-		options.ExpressionAttributeValues[filter] = value
+		const value = params[attr]
+		context.values[filter] = isUpdateFunction(value) ? updateFunctionValue(value) : value
 		// create the expression token
-		const token = `#${attr}`
-		expressionNames[token] = attr
+		const token = context.name(attr)
 		// push the expression to the update expressions
-		updateExpressions.push(`${token} = ${filter}`)
+		updateExpressions.push(
+			`${token} = ${isUpdateFunction(value) ? compileUpdateFunction(token, filter, value) : filter}`
+		)
 	})
-	if (!isEmpty(expressionNames)) {
-		options.ExpressionAttributeNames = expressionNames
+	const clauses: string[] = []
+	if (updateExpressions.length) {
+		clauses.push(`SET ${updateExpressions.join(', ')}`)
+	}
+	if (request.remove?.length) {
+		clauses.push(`REMOVE ${request.remove.map((attr) => context.name(attr)).join(', ')}`)
+	}
+	const actions = { ADD: add, DELETE: request.delete }
+	Object.keys(actions)
+		.filter((action) => !isEmpty(actions[action]))
+		.forEach((action) => {
+			const values = actions[action]
+			const expressions = Object.keys(values).map(
+				(attr) => `${context.name(attr)} ${context.value(values[attr])}`
+			)
+			clauses.push(`${action} ${expressions.join(', ')}`)
+		})
+	if (!clauses.length) {
+		throw new ValidationError('Update request requires at least one update action')
+	}
+	const attributes = [
+		...paramAttrs,
+		...(request.remove || []),
+		...Object.keys(add || {}),
+		...Object.keys(request.delete || {})
+	]
+	const duplicate = attributes.find((attr, index) => attributes.indexOf(attr) !== index)
+	if (duplicate) {
+		throw new ValidationError(`Attribute ${duplicate} cannot be updated by more than one action`)
+	}
+	if (!isEmpty(context.names)) {
+		options.ExpressionAttributeNames = context.names
 	}
-	const expressions = updateExpressions.join(', ')
-	options.UpdateExpression = `SET ${expressions}`
+	options.ExpressionAttributeValues = context.values
+	if (isEmpty(options.ExpressionAttributeValues)) {
+		delete options.ExpressionAttributeValues
+	}
+	options.UpdateExpression = clauses.join(' ')
 
-	return options
+	return marshallInput(applyCondition(options, 'ConditionExpression', condition), request.mode)
 }
 
 /**
  * Build Query Item Input for dynamodb
- * @param {DeleteItemRequest} request
+ * @param {QueryItemRequest} request
  * @param {string} request.tableName
- * @param {string} request.key
- * @returns {DeleteItemInput}
+ * @param {object} request.params partition key equality conditions
+ * @param {KeyCondition} request.sortKey sort key condition
+ * @param {object} request.names `#` placeholders referenced by the raw `filters`
+ * @param {object} request.values `:` placeholders referenced by the raw `filters`
+ * @param {ExpiryOptions} request.excludeExpired filters out items whose TTL has passed
+ * @param {SoftDeleteOptions} request.softDelete filters out tombstones unless `includeDeleted` is set
+ * @returns {QueryInput}
+ * @throws {ValidationError} If a key value is missing, a placeholder is malformed
+ * or the sort key condition is invalid
  */
 export const buildQueryInput = (request: QueryItemRequest): QueryInput => {
 	const options: any = {
 		TableName: request.tableName,
 		IndexName: request.indexName,
-		ExpressionAttributeValues: {},
-		ConsistentRead: true
+		ExpressionAttributeValues: {}
+	}
+	// global secondary indexes don't support consistent reads
+	if (!request.indexName) {
+		options.ConsistentRead = true
 	}
 	if (request.limit) {
 		options.Limit = request.limit
 	}
 	if (request.nextToken) {
-		options.ExclusiveStartKey = request.nextToken
+		options.ExclusiveStartKey = resolveStartKey(request.nextToken, request.cursorOptions)
+	}
+	if (request.scanIndexForward !== undefined) {
+		options.ScanIndexForward = request.scanIndexForward
 	}
 	const keyExpressions: string[] = []
-	const paramAttrs: string[] = Object.keys(request.params || {})
-
-	const expressionNames: any = {}
+	const params = request.params || {}
+	// placeholders of the raw filters are registered first, so generated ones avoid them
+	Object.keys(request.names || {})
+		.filter((name) => !name.startsWith('#'))
+		.forEach((name) => {
+			throw new ValidationError(`Attribute name placeholder ${name} must start with #`)
+		})
+	Object.keys(request.values || {})
+		.filter((value) => !value.startsWith(':'))
+		.forEach((value) => {
+			throw new ValidationError(`Attribute value placeholder ${value} must start with :`)
+		})
+	const context = new ExpressionContext(request.names, request.values)
 
-	paramAttrs.forEach((attr: string) => {
-		let filter: string = `:${attr.charAt(0)}`
-		if (options?.ExpressionAttributeValues?.hasOwnProperty(filter)) {
-			filter = `:${attr.charAt(0)}${attr.charAt(1)}`
+	Object.keys(params).forEach((attr: string) => {
+		const value = params[attr]
+		if (value === undefined) {
+			throw new ValidationError(`Key attribute ${attr} has no value`)
+		}
+		let filter: string = `:${valuePrefix(attr)}`
+		if (context.values.hasOwnProperty(filter) && /^[A-Za-z0-9]$/.test(attr.charAt(1))) {
+			filter = `${filter}${attr.charAt(1)}`
 		}
-		const value = request.params?.[attr] || ''
-		options.ExpressionAttributeValues[filter] = value
-
-		const isReservedWord = reservedWords.includes(attr as any)
-		let token = attr
-		if (isReservedWord) {
-			token = `#${attr}`
-			expressionNames[token] = attr
+		if (context.values.hasOwnProperty(filter)) {
+			filter = context.value(value)
+		} else {
+			context.values[filter] = value
 		}
-		keyExpressions.push(`${token} = ${filter}`)
+		keyExpressions.push(`${context.reference(attr)} = ${filter}`)
 	})
-	if (!isEmpty(expressionNames)) {
-		options.ExpressionAttributeNames = expressionNames
+	if (request.sortKey) {
+		keyExpressions.push(compileCondition(validateKeyCondition(request.sortKey), context))
 	}
 	options.KeyConditionExpression = keyExpressions.join(' and ')
-	return options
+
+	const filterExpressions: string[] = [...(request.filters || [])]
+	if (request.filter) {
+		filterExpressions.push(compileCondition(request.filter, context))
+	}
+	if (request.excludeExpired) {
+		filterExpressions.push(compileCondition(notExpired(request.excludeExpired), context))
+	}
+	if (request.softDelete && !request.includeDeleted) {
+		filterExpressions.push(compileCondition(notDeleted(request.softDelete), context))
+	}
+	if (filterExpressions.length) {
+		options.FilterExpression =
+			filterExpressions.length > 1
+				? filterExpressions.map((x) => `(${x})`).join(' and ')
+				: filterExpressions[0]
+	}
+	if (request.output?.length) {
+		options.ProjectionExpression = request.output.map((x) => context.name(x)).join(', ')
+	}
+	if (!isEmpty(context.names)) {
+		options.ExpressionAttributeNames = context.names
+	}
+	options.ExpressionAttributeValues = context.values
+	return marshallInput(options, request.mode)
 }
 
 /**
@@ -186,12 +461,102 @@ export const buildQueryInput = (request: QueryItemRequest): QueryInput => {
  * @param {DeleteItemRequest} request
  * @param {string} request.tableName
  * @param {string} request.key
+ * @param {VersionOptions} request.version Deletes only the expected version
  * @returns {DeleteItemInput}
+ * @throws {ValidationError} If the expected version is invalid
  */
-export const buildDeleteInput = (request: DeleteItemRequest): DeleteItemInput => ({
-	TableName: request.tableName,
-	Key: request.key
-})
+export const buildDeleteInput = (request: DeleteItemRequest): DeleteItemInput => {
+	const options: any = { TableName: request.tableName, Key: request.key }
+	let { condition } = request
+	if (request.version) {
+		condition = versionCheck(request.version, condition).condition
+		options.ReturnValuesOnConditionCheckFailure = 'ALL_OLD'
+	}
+	return marshallInput(applyCondition(options, 'ConditionExpression', condition), request.mode)
+}
+
+/**
+ * Build a soft delete for dynamodb: an update marking the item as deleted instead of removing it
+ * @param {SoftDeleteItemRequest} request
+ * @param {string} request.key
+ * @param {string} request.deletedBy who deleted the item
+ * @param {SoftDeleteOptions} request.softDelete tombstone attributes and their TTL
+ * @returns {UpdateItemInput}
+ * @throws {ValidationError} If the key, the expected version or the TTL is invalid
+ */
+export const buildSoftDeleteInput = (request: SoftDeleteItemRequest): UpdateItemInput => {
+	validateKey(request.key)
+	const options = request.softDelete || {}
+	const { deletedAt, deletedBy } = tombstoneAttributes(options)
+	const clock = options.clock || getCurrentTimestamp
+	const params: Record<string, unknown> = { [deletedAt]: formatTimestamp(clock(), options.format) }
+	if (request.deletedBy !== undefined) {
+		params[deletedBy] = request.deletedBy
+	}
+	// only mark existing items that aren't tombstones yet
+	const live = and(
+		...Object.keys(request.key).map((attr) => attributeExists(attr)),
+		notDeleted(options)
+	)
+	return buildUpdateInput({
+		tableName: request.tableName as string,
+		key: request.key,
+		params,
+		condition: request.condition ? and(live, request.condition) : live,
+		version: request.version,
+		ttl: options.ttl && { clock: options.clock, ...options.ttl },
+		mode: request.mode
+	})
+}
+
+/**
+ * Build a restore of a soft-deleted item, removing its tombstone attributes and TTL
+ * @param {RestoreItemRequest} request
+ * @param {string} request.key
+ * @param {SoftDeleteOptions} request.softDelete tombstone attributes and their TTL
+ * @returns {UpdateItemInput}
+ * @throws {ValidationError} If the key or the expected version is invalid
+ */
+export const buildRestoreInput = (request: RestoreItemRequest): UpdateItemInput => {
+	validateKey(request.key)
+	const options = request.softDelete || {}
+	const { deletedAt, deletedBy } = tombstoneAttributes(options)
+	const deleted = attributeExists(deletedAt)
+	return buildUpdateInput({
+		tableName: request.tableName as string,
+		key: request.key,
+		remove: [deletedAt, deletedBy, ...(options.ttl ? [ttlAttribute(options.ttl)] : [])],
+		condition: request.condition ? and(deleted, request.condition) : deleted,
+		version: request.version,
+		mode: request.mode
+	})
+}
+
+/**
+ * Build Condition Check for a transaction
+ * @param {ConditionCheckRequest} request
+ * @param {string} request.tableName
+ * @param {object} request.key
+ * @param {Condition} request.condition Condition the item must meet
+ * @returns {ConditionCheck}
+ * @throws {ValidationError} If the request has no condition
+ */
+export const buildConditionCheckInput = (request: ConditionCheckRequest): ConditionCheck => {
+	if (!request.condition) {
+		throw new ValidationError('Condition check requires a condition')
+	}
+	return marshallInput(
+		applyCondition(
+			{
+				TableName: request.tableName,
+				Key: request.key as Record<string, AttributeValue>
+			} as ConditionCheck,
+			'ConditionExpression',
+			request.condition
+		),
+		request.mode
+	)
+}
 
 /**
  * Build Get Item Input for dynamodb
@@ -200,10 +565,14 @@ export const buildDeleteInput = (request: DeleteItemRequest): DeleteItemInput =>
  * @param {string} request.key
  * @returns {DeleteItemInput}
  */
-export const buildGetInput = (request: GetItemRequest): GetItemInput => ({
-	TableName: request.tableName,
-	Key: request.key as Record<string, AttributeValue> | undefined
-})
+export const buildGetInput = (request: GetItemRequest): GetItemInput =>
+	marshallInput(
+		{
+			TableName: request.tableName,
+			Key: request.key as Record<string, AttributeValue> | undefined
+		},
+		request.mode
+	)
 
 /**
  *
@@ -212,3 +581,16 @@ export const buildGetInput = (request: GetItemRequest): GetItemInput => ({
 export const keyInput = (key): Record<string, AttributeValue> => ({
 	id: key
 })
+
+/**
+ * Build an identity for a key, independent of attribute order
+ * @param tableName Table name
+ * @param key Item key
+ */
+export const keyId = (tableName: string, key: Record<string, unknown>): string =>
+	JSON.stringify([
+		tableName,
+		Object.keys(key)
+			.sort()
+			.map((attr) => [attr, key[attr]])
+	])
@@ -0,0 +1,128 @@
+import { ValidationError } from '../errors'
+import { validateNonEmptyString } from './validation'
+
+const PLACEHOLDER = /\{([^{}]+)\}/
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Format an attribute value for a composite key
+ * @param value Attribute value
+ */
+const formatValue = (value: unknown): string =>
+	value instanceof Date ? value.toISOString() : String(value)
+
+/**
+ * Composite key template such as `ORDER#{date}#{orderId}`, building key values
+ * from item attributes and parsing them back
+ */
+export class KeyTemplate {
+	readonly template: string
+	// attributes in template order
+	readonly attributes: string[]
+	// literal text around the attributes, one more than there are attributes
+	private readonly literals: string[]
+	private readonly pattern: RegExp
+
+	/**
+	 * @throws {ValidationError} If the template is empty or two attributes are not separated
+	 */
+	constructor(template: string) {
+		validateNonEmptyString(template, 'Key template')
+		const parts = template.split(new RegExp(PLACEHOLDER.source, 'g'))
+		this.template = template
+		this.literals = parts.filter((_, i) => i % 2 === 0)
+		this.attributes = parts.filter((_, i) => i % 2 === 1)
+		if (this.literals.slice(1, -1).some((literal) => !literal)) {
+			throw new ValidationError(`Attributes of key template ${template} must be separated`)
+		}
+		this.pattern = new RegExp(
+			`^${this.literals.map(escapeRegExp).reduce((source, literal) => `${source}(.+?)${literal}`)}$`
+		)
+	}
+
+	/**
+	 * Build the key value from item attributes
+	 * @param values Item attributes
+	 * @returns {string}
+	 * @throws {ValidationError} If an attribute of the template is missing, or a value contains
+	 * the literal text following it, which would keep the key from being parsed back
+	 */
+	build(values: Record<string, unknown>): string {
+		const missing = this.attributes.find((attr) => !this.has(values, attr))
+		if (missing) {
+			throw new ValidationError(`Key template ${this.template} requires attribute ${missing}`)
+		}
+		return this.prefix(values)
+	}
+
+	/**
+	 * Build the longest prefix of the key value the given attributes allow, such as
+	 * `ORDER#` without attributes or `ORDER#2024-03-20#` with only `date`.
+	 * With every attribute of a template ending in one, the prefix is the whole key value,
+	 * which also prefixes longer values: `USER#1` prefixes `USER#10`.
+	 * @param values Leading attributes of the template
+	 * @returns {string}
+	 * @throws {ValidationError} If a value contains the literal text following it
+	 */
+	prefix(values: Record<string, unknown> = {}): string {
+		let prefix = this.literals[0]
+		for (let i = 0; i < this.attributes.length; i++) {
+			if (!this.has(values, this.attributes[i])) {
+				break
+			}
+			const value = formatValue(values[this.attributes[i]])
+			const literal = this.literals[i + 1]
+			// parsing ends the value at the first occurrence of the literal following it
+			if (literal && (value + literal).indexOf(literal) !== value.length) {
+				throw new ValidationError(
+					`Attribute ${this.attributes[i]} of key template ${this.template} cannot contain ${literal}`
+				)
+			}
+			prefix += value + literal
+		}
+		return prefix
+	}
+
+	/**
+	 * Whether every attribute of the template has a value
+	 * @param values Item attributes
+	 */
+	complete(values: Record<string, unknown>): boolean {
+		return this.attributes.every((attr) => this.has(values, attr))
+	}
+
+	/**
+	 * Parse a key value back into the attributes it was built from
+	 * @param value Key value
+	 * @returns Attribute values, as strings
+	 * @throws {ValidationError} If the value does not match the template
+	 */
+	parse(value: string): Record<string, string> {
+		const match = typeof value === 'string' ? this.pattern.exec(value) : null
+		if (!match) {
+			throw new ValidationError(`Key ${value} does not match template ${this.template}`)
+		}
+		return this.attributes.reduce((values, attr, i) => ({ ...values, [attr]: match[i + 1] }), {})
+	}
+
+	/**
+	 * Whether a key value matches the template
+	 * @param value Key value
+	 */
+	matches(value: string): boolean {
+		return typeof value === 'string' && this.pattern.test(value)
+	}
+
+	private has(values: Record<string, unknown>, attr: string): boolean {
+		return values?.[attr] !== undefined && values[attr] !== null && values[attr] !== ''
+	}
+}
+
+/**
+ * Declare a composite key template, with attributes in braces: `USER#{userId}`
+ * @param template Key template
+ * @returns {KeyTemplate}
+ * @throws {ValidationError} If the template is invalid
+ */
+export const keyTemplate = (template: string): KeyTemplate => new KeyTemplate(template)
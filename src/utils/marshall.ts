@@ -0,0 +1,74 @@
+import { isPlainObject, mapValues } from 'lodash'
+import { AttributeValue } from '@aws-sdk/client-dynamodb'
+import { convertToAttr, marshall, unmarshall } from '@aws-sdk/util-dynamodb'
+import { MarshallingMode } from '../types'
+
+const MARSHALL_OPTIONS = { removeUndefinedValues: true }
+
+/**
+ * Input fields holding values that are marshalled in low-level mode.
+ * ExclusiveStartKey is left alone, it comes back from the client already marshalled.
+ */
+const VALUE_FIELDS = ['Item', 'Key', 'ExpressionAttributeValues']
+
+/**
+ * Replace dates with ISO 8601 strings, which DynamoDB has no type for
+ * @param value Value to serialize
+ */
+const serializeDates = (value: unknown): unknown => {
+	if (value instanceof Date) {
+		return value.toISOString()
+	}
+	if (Array.isArray(value)) {
+		return value.map(serializeDates)
+	}
+	if (value instanceof Set) {
+		return new Set(Array.from(value).map(serializeDates))
+	}
+	if (isPlainObject(value)) {
+		return mapValues(value as Record<string, unknown>, serializeDates)
+	}
+	return value
+}
+
+/**
+ * Marshall a plain value into an AttributeValue
+ * @param value Value, including nested maps, lists, sets, null, binary and dates
+ * @returns {AttributeValue}
+ */
+export const marshallValue = (value: unknown): AttributeValue =>
+	convertToAttr(serializeDates(value), MARSHALL_OPTIONS)
+
+/**
+ * Marshall a plain object into an AttributeValue map
+ * @param item Item, key or placeholder values
+ * @returns {Record<string, AttributeValue>}
+ */
+export const marshallItem = (item: Record<string, unknown>): Record<string, AttributeValue> =>
+	marshall(serializeDates(item) as Record<string, unknown>, MARSHALL_OPTIONS)
+
+/**
+ * Unmarshall an AttributeValue map back into a plain object
+ * @param item Item returned by the low-level client
+ * @returns Plain object, dates come back as ISO 8601 strings
+ */
+export const unmarshallItem = (item: Record<string, AttributeValue>): Record<string, unknown> =>
+	unmarshall(item)
+
+/**
+ * Marshall the values of a builder input for the mode it targets
+ * @param input Builder input holding plain values
+ * @param mode `document` leaves values for the DocumentClient, `lowLevel` marshalls them for DynamoDBClient
+ */
+export const marshallInput = <T>(input: T, mode: MarshallingMode = 'document'): T => {
+	if (mode !== 'lowLevel') {
+		return input
+	}
+	const result: any = { ...input }
+	VALUE_FIELDS.forEach((field) => {
+		if (result[field]) {
+			result[field] = marshallItem(result[field])
+		}
+	})
+	return result
+}
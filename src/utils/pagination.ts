@@ -0,0 +1,152 @@
+import {
+	DynamoDBDocumentClient,
+	QueryCommand,
+	QueryCommandInput,
+	ScanCommand,
+	ScanCommandInput
+} from '@aws-sdk/lib-dynamodb'
+import { Key, Page, PaginationOptions, QueryItemRequest, ScanInputRequest } from '../types'
+import { buildQueryInput, buildScanInput } from './index'
+import { resolveStartKey } from './cursor'
+import { ValidationError } from '../errors'
+import { retryPolicy, withRetry } from '../retry'
+
+type PageFetcher = (startKey?: Key, limit?: number) => Promise<Page>
+
+/**
+ * Async iterable over the pages of a query or scan. Pages are only requested
+ * as they are consumed, so breaking out of a loop never leaves a request behind.
+ */
+export class Paginator implements AsyncIterable<Page> {
+	private readonly fetchPage: PageFetcher
+	private readonly startKey?: Key
+	private readonly pageSize?: number
+	private readonly maxItems: number
+	private readonly maxPages: number
+
+	constructor(
+		fetchPage: PageFetcher,
+		startKey: Key | undefined,
+		pageSize: number | undefined,
+		options: PaginationOptions = {}
+	) {
+		const { maxItems = Infinity, maxPages = Infinity } = options
+		if (maxItems < 1) {
+			throw new ValidationError('Max items must be at least 1')
+		}
+		if (maxPages < 1) {
+			throw new ValidationError('Max pages must be at least 1')
+		}
+		this.fetchPage = fetchPage
+		this.startKey = startKey
+		this.pageSize = pageSize
+		this.maxItems = maxItems
+		this.maxPages = maxPages
+	}
+
+	async *[Symbol.asyncIterator](): AsyncIterator<Page> {
+		let startKey = this.startKey
+		let pages = 0
+		let count = 0
+		do {
+			if (pages >= this.maxPages || count >= this.maxItems) {
+				return
+			}
+			// never evaluate more items than the cap still allows
+			const remaining = this.maxItems - count
+			const limit = Number.isFinite(remaining)
+				? Math.min(this.pageSize ?? remaining, remaining)
+				: this.pageSize
+			const page = await this.fetchPage(startKey, limit)
+			if (page.items.length > remaining) {
+				page.items = page.items.slice(0, remaining)
+			}
+			pages++
+			count += page.items.length
+			yield page
+			startKey = page.lastEvaluatedKey
+		} while (startKey)
+	}
+
+	/**
+	 * Iterate over the individual items of every page
+	 */
+	async *items(): AsyncGenerator<Record<string, unknown>> {
+		for await (const page of this) {
+			for (const item of page.items) {
+				yield item
+			}
+		}
+	}
+}
+
+/**
+ * Paginate a query, following LastEvaluatedKey until the results or caps are exhausted
+ * @param client DocumentClient to send the queries with
+ * @param request Query request, `limit` sets the page size and `nextToken` the start key
+ * @param options Item and page caps, and the retry policy of the page requests
+ * @returns {Paginator}
+ */
+export const paginateQuery = (
+	client: DynamoDBDocumentClient,
+	request: QueryItemRequest,
+	options: PaginationOptions = {}
+): Paginator => {
+	const policy = retryPolicy(options.retry)
+	const context = { operation: 'query', tableName: request.tableName }
+	return new Paginator(
+		async (startKey, limit) => {
+			const input = buildQueryInput({ ...request, nextToken: startKey, limit, mode: 'document' })
+			const command = new QueryCommand(input as QueryCommandInput)
+			const result = await withRetry(
+				policy,
+				(abortSignal) => client.send(command, { abortSignal }),
+				context
+			)
+			return {
+				items: (result.Items || []) as Record<string, unknown>[],
+				lastEvaluatedKey: result.LastEvaluatedKey as Key | undefined
+			}
+		},
+		resolveStartKey(request.nextToken, request.cursorOptions),
+		request.limit,
+		options
+	)
+}
+
+/**
+ * Paginate a scan, following LastEvaluatedKey until the results or caps are exhausted
+ * @param client DocumentClient to send the scans with
+ * @param request Scan request, `limit` sets the page size and `startKey` the start key
+ * @param options Item and page caps, and the retry policy of the page requests
+ * @returns {Paginator}
+ */
+export const paginateScan = (
+	client: DynamoDBDocumentClient,
+	request: ScanInputRequest,
+	options: PaginationOptions = {}
+): Paginator => {
+	const policy = retryPolicy(options.retry)
+	const context = { operation: 'scan', tableName: request.tableName }
+	return new Paginator(
+		async (startKey, limit) => {
+			const input = {
+				...buildScanInput({ ...request, startKey: undefined, limit, mode: 'document' }),
+				...(startKey && { ExclusiveStartKey: startKey })
+			}
+			const command = new ScanCommand(input as ScanCommandInput)
+			const result = await withRetry(
+				policy,
+				(abortSignal) => client.send(command, { abortSignal }),
+				context
+			)
+			return {
+				items: (result.Items || []) as Record<string, unknown>[],
+				lastEvaluatedKey: result.LastEvaluatedKey as Key | undefined
+			}
+		},
+		resolveStartKey(request.startKey, request.cursorOptions),
+		request.limit,
+		options
+	)
+}
@@ -0,0 +1,194 @@
+import { DynamoDBDocumentClient, ScanCommand, ScanCommandInput } from '@aws-sdk/lib-dynamodb'
+import {
+	Key,
+	ParallelScanOptions,
+	ScanCheckpoint,
+	ScanInputRequest,
+	ScanSegmentCheckpoint
+} from '../types'
+import { buildScanInput } from './index'
+import { validateNumberRange } from './validation'
+import { ValidationError } from '../errors'
+import { RetryPolicy, retryPolicy, withRetry } from '../retry'
+
+interface ScanPage {
+	segment: number
+	items: Record<string, unknown>[]
+	lastEvaluatedKey?: Key
+	release: () => void
+}
+
+/**
+ * Parallel segmented scan streaming items through a single async iterator.
+ * At most `concurrency` segments are scanned at once, and each segment waits
+ * for its page to be consumed before requesting the next one.
+ */
+export class ParallelScan implements AsyncIterable<Record<string, unknown>> {
+	private readonly client: DynamoDBDocumentClient
+	private readonly request: ScanInputRequest
+	private readonly concurrency: number
+	private readonly segments: ScanSegmentCheckpoint[]
+	private readonly totalSegments: number
+	private readonly retry?: RetryPolicy
+
+	constructor(
+		client: DynamoDBDocumentClient,
+		request: ScanInputRequest,
+		options: ParallelScanOptions
+	) {
+		validateNumberRange(options.totalSegments, 'Total segments', 1, 1000000)
+		validateNumberRange(
+			options.concurrency ?? options.totalSegments,
+			'Concurrency',
+			1,
+			options.totalSegments
+		)
+		if (options.checkpoint && options.checkpoint.totalSegments !== options.totalSegments) {
+			throw new ValidationError(
+				`Checkpoint was taken with ${options.checkpoint.totalSegments} segments, not ${options.totalSegments}`
+			)
+		}
+		this.client = client
+		this.request = request
+		this.totalSegments = options.totalSegments
+		this.concurrency = options.concurrency ?? options.totalSegments
+		this.segments = Array.from({ length: options.totalSegments }, (_, segment) => {
+			const saved = options.checkpoint?.segments.find((x) => x.segment === segment)
+			return saved ? { ...saved } : { segment, done: false }
+		})
+		this.retry = retryPolicy(options.retry)
+	}
+
+	/**
+	 * Per-segment progress, covering every page fully consumed so far.
+	 * Pass it back as `checkpoint` to resume an interrupted scan; items of a
+	 * page interrupted midway are yielded again.
+	 */
+	get checkpoint(): ScanCheckpoint {
+		return {
+			totalSegments: this.totalSegments,
+			segments: this.segments.map((x) => ({ ...x }))
+		}
+	}
+
+	/**
+	 * Whether every segment has been scanned
+	 */
+	get done(): boolean {
+		return this.segments.every((x) => x.done)
+	}
+
+	async *[Symbol.asyncIterator](): AsyncIterator<Record<string, unknown>> {
+		const queue = this.segments.filter((x) => !x.done).map((x) => x.segment)
+		const pages: ScanPage[] = []
+		let stopped = false
+		let failure: unknown
+		let active = 0
+		// aborting a worker's controller cancels its request in flight when the consumer stops
+		const controllers: AbortController[] = []
+		let wake: (() => void) | undefined
+		const notify = () => {
+			const fn = wake
+			wake = undefined
+			fn?.()
+		}
+
+		const worker = async (controller: AbortController) => {
+			while (!stopped && queue.length) {
+				const segment = queue.shift() as number
+				let startKey = this.segments[segment].lastEvaluatedKey
+				do {
+					const input = {
+						...buildScanInput({
+							...this.request,
+							startKey: undefined,
+							segment,
+							totalSegments: this.totalSegments,
+							mode: 'document'
+						}),
+						...(startKey && { ExclusiveStartKey: startKey })
+					}
+					const command = new ScanCommand(input as ScanCommandInput)
+					const result = await withRetry(
+						this.retry,
+						(abortSignal) => {
+							// a retry policy aborts the attempt when its deadline passes
+							abortSignal?.addEventListener('abort', () => controller.abort())
+							return this.client.send(command, { abortSignal: controller.signal })
+						},
+						{ operation: 'scan', tableName: this.request.tableName }
+					)
+					if (stopped) return
+					// wait for the consumer to drain the page before fetching the next one
+					await new Promise<void>((release) => {
+						pages.push({
+							segment,
+							items: (result.Items || []) as Record<string, unknown>[],
+							lastEvaluatedKey: result.LastEvaluatedKey as Key | undefined,
+							release
+						})
+						notify()
+					})
+					startKey = result.LastEvaluatedKey as Key | undefined
+				} while (startKey && !stopped)
+			}
+		}
+
+		// workers take their segments as they start, so count them before starting any
+		const workers = Math.min(this.concurrency, queue.length)
+		for (let i = 0; i < workers; i++) {
+			active++
+			const controller = new AbortController()
+			controllers.push(controller)
+			worker(controller)
+				.catch((e) => {
+					failure = failure || e
+					stopped = true
+				})
+				.finally(() => {
+					active--
+					notify()
+				})
+		}
+
+		try {
+			while (true) {
+				if (failure) throw failure
+				const page = pages.shift()
+				if (page) {
+					for (const item of page.items) {
+						yield item
+					}
+					this.segments[page.segment] = {
+						segment: page.segment,
+						lastEvaluatedKey: page.lastEvaluatedKey,
+						done: !page.lastEvaluatedKey
+					}
+					page.release()
+					continue
+				}
+				if (active === 0) break
+				await new Promise<void>((resolve) => (wake = resolve))
+			}
+		} finally {
+			// stop the workers, cancel their requests and unblock any waiting on an unconsumed page
+			stopped = true
+			controllers.forEach((x) => x.abort())
+			pages.splice(0).forEach((x) => x.release())
+		}
+	}
+}
+
+/**
+ * Scan a table in parallel segments
+ * @param client DocumentClient to send the scans with
+ * @param request Scan request
+ * @param options Segment count, concurrency, checkpoint to resume from and retry policy
+ * @returns {ParallelScan}
+ * @throws {ValidationError} If the options are invalid
+ */
+export const parallelScan = (
+	client: DynamoDBDocumentClient,
+	request: ScanInputRequest,
+	options: ParallelScanOptions
+): ParallelScan => new ParallelScan(client, request, options)
@@ -0,0 +1,68 @@
+/**
+ * Maximum size of a single item in bytes
+ */
+export const MAX_ITEM_SIZE = 400 * 1024
+
+/**
+ * Size of a string in UTF-8 bytes
+ * @param value String to measure
+ */
+const stringSize = (value: string): number => Buffer.byteLength(value, 'utf8')
+
+/**
+ * Size of a number: one byte per two significant digits, plus one
+ * @param value Number to measure
+ */
+const numberSize = (value: number | bigint): number => {
+	const digits = String(value)
+		.replace(/^-/, '')
+		.replace(/e.*$/i, '')
+		.replace('.', '')
+		.replace(/^0+/, '')
+		.replace(/0+$/, '')
+	return Math.ceil(Math.max(digits.length, 1) / 2) + 1
+}
+
+/**
+ * Approximate the stored size of an attribute value, following DynamoDB's item size rules
+ * @param value Attribute value
+ * @returns Size in bytes
+ */
+export const valueSize = (value: unknown): number => {
+	if (value === null || value === undefined || typeof value === 'boolean') {
+		return 1
+	}
+	if (typeof value === 'string') {
+		return stringSize(value)
+	}
+	if (typeof value === 'number' || typeof value === 'bigint') {
+		return numberSize(value)
+	}
+	if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+		return value.byteLength
+	}
+	if (value instanceof Set) {
+		return Array.from(value).reduce((total: number, element) => total + valueSize(element), 0)
+	}
+	if (Array.isArray(value)) {
+		return value.reduce((total: number, element) => total + valueSize(element) + 1, 3)
+	}
+	if (typeof value === 'object') {
+		return Object.keys(value).reduce(
+			(total, attr) => total + stringSize(attr) + valueSize(value[attr]) + 1,
+			3
+		)
+	}
+	return stringSize(String(value))
+}
+
+/**
+ * Approximate the stored size of an item
+ * @param item Item to measure
+ * @returns Size in bytes
+ */
+export const itemSize = (item: Record<string, unknown>): number =>
+	Object.keys(item || {}).reduce(
+		(total, attr) => total + stringSize(attr) + valueSize(item[attr]),
+		0
+	)
@@ -5,7 +5,19 @@ import { ValidationError } from '../errors'
  */
 export interface TimezoneOptions {
 	timezone?: string
-	format?: 'iso' | 'unix' | 'utc'
+	format?: 'iso' | 'unix' | 'utc' | 'millis'
+}
+
+/**
+ * Options for stamping items with their creation and update times
+ */
+export interface TimestampOptions extends TimezoneOptions {
+	// attribute set by updates creating the item and by puts not passing it, `createdAt` by default
+	createdAt?: string
+	// attribute set on every write, `updatedAt` by default
+	updatedAt?: string
+	// current time in milliseconds, `Date.now` by default
+	clock?: () => number
 }
 
 /**
@@ -32,6 +44,8 @@ export function convertTimestamp(timestamp: number, options: TimezoneOptions = {
 	}
 
 	switch (opts.format) {
+		case 'millis':
+			return date.getTime().toString()
 		case 'unix':
 			return Math.floor(date.getTime() / 1000).toString()
 		case 'utc':
@@ -210,3 +224,37 @@ export function getCurrentTimestampInTimezoneAndFormat(
 		throw new ValidationError(`Invalid timezone: ${timezone}`)
 	}
 }
+
+/**
+ * Format a timestamp for storage, as a number for the epoch formats
+ * @param timestamp Timestamp in milliseconds
+ * @param format Storage format, epoch milliseconds by default
+ * @returns Stored timestamp
+ * @throws {ValidationError} If the timestamp is invalid
+ */
+export function formatTimestamp(
+	timestamp: number,
+	format: TimezoneOptions['format'] = 'millis'
+): number | string {
+	const value = convertTimestamp(timestamp, { format })
+	return format === 'millis' || format === 'unix' ? Number(value) : value
+}
+
+/**
+ * Resolve the timestamp attributes of a write and the current time in their format
+ * @param options Timestamp options
+ * @returns Attribute names and the stored current time
+ * @throws {ValidationError} If the clock returns an invalid timestamp
+ */
+export function timestampAttributes(options: TimestampOptions): {
+	createdAt: string
+	updatedAt: string
+	now: number | string
+} {
+	const clock = options.clock || getCurrentTimestamp
+	return {
+		createdAt: options.createdAt || 'createdAt',
+		updatedAt: options.updatedAt || 'updatedAt',
+		now: formatTimestamp(clock(), options.format)
+	}
+}
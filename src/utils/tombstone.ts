@@ -0,0 +1,32 @@
+import { Condition, SoftDeleteOptions } from '../types'
+import { attributeNotExists } from './expression'
+
+/**
+ * Resolve the tombstone attributes of a soft-deleting table
+ * @param options Soft-delete options
+ * @returns Attribute names of the deletion time and of who deleted the item
+ */
+export const tombstoneAttributes = (
+	options: SoftDeleteOptions = {}
+): { deletedAt: string; deletedBy: string } => ({
+	deletedAt: options.deletedAt || 'deletedAt',
+	deletedBy: options.deletedBy || 'deletedBy'
+})
+
+/**
+ * Whether an item is a tombstone left by a soft delete
+ * @param item Item
+ * @param options Soft-delete options
+ */
+export const isDeleted = (
+	item: Record<string, unknown> | undefined,
+	options: SoftDeleteOptions = {}
+): boolean => item?.[tombstoneAttributes(options).deletedAt] !== undefined
+
+/**
+ * Filter condition hiding tombstoned items
+ * @param options Soft-delete options
+ * @returns {Condition}
+ */
+export const notDeleted = (options: SoftDeleteOptions = {}): Condition =>
+	attributeNotExists(tombstoneAttributes(options).deletedAt)
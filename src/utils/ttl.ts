@@ -0,0 +1,95 @@
+import { Condition, ExpiryOptions } from '../types'
+import { ValidationError } from '../errors'
+import { lte, not } from './expression'
+import { getCurrentTimestamp } from './timestamp'
+
+/**
+ * Seconds per duration unit
+ */
+const UNITS: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 60 * 60,
+	d: 24 * 60 * 60,
+	w: 7 * 24 * 60 * 60
+}
+
+const DURATION = /^(\d+[smhdw])+$/
+
+/**
+ * Current time of the expiry options, in epoch seconds
+ * @param options Expiry options
+ */
+const currentTime = (options: ExpiryOptions): number =>
+	Math.floor((options.clock || getCurrentTimestamp)() / 1000)
+
+/**
+ * TTL attribute of the expiry options
+ * @param options Expiry options
+ */
+export const ttlAttribute = (options: ExpiryOptions = {}): string => options.attribute || 'ttl'
+
+/**
+ * Parse a duration such as `30d`, `12h` or `1d12h` into seconds
+ * @param duration Duration, or a number of seconds
+ * @returns {number} Seconds
+ * @throws {ValidationError} If the duration is malformed or negative
+ */
+export const parseDuration = (duration: string | number): number => {
+	if (typeof duration === 'number') {
+		if (!Number.isInteger(duration) || duration < 0) {
+			throw new ValidationError(`Invalid duration: ${duration}`)
+		}
+		return duration
+	}
+	const value = typeof duration === 'string' ? duration.replace(/\s+/g, '') : ''
+	if (!DURATION.test(value)) {
+		throw new ValidationError(`Invalid duration: ${duration}`)
+	}
+	return (value.match(/\d+[smhdw]/g) as string[]).reduce(
+		(seconds, part) => seconds + parseInt(part, 10) * UNITS[part.slice(-1)],
+		0
+	)
+}
+
+/**
+ * Compute the TTL value of an item expiring after a duration
+ * @param duration Duration such as `30d`, or a number of seconds
+ * @param options Current time
+ * @returns {number} Expiry, in epoch seconds
+ * @throws {ValidationError} If the duration is invalid
+ */
+export const expiresAt = (duration: string | number, options: ExpiryOptions = {}): number =>
+	currentTime(options) + parseDuration(duration)
+
+/**
+ * Whether an item's TTL has passed. Items without a numeric TTL never expire.
+ * @param item Item
+ * @param options TTL attribute and current time
+ */
+export const isExpired = (item: Record<string, unknown>, options: ExpiryOptions = {}): boolean => {
+	const value = item?.[ttlAttribute(options)]
+	return typeof value === 'number' && value <= currentTime(options)
+}
+
+/**
+ * Drop expired items from read results
+ * @param items Items
+ * @param options TTL attribute and current time
+ */
+export const removeExpired = <T extends Record<string, unknown>>(
+	items: T[],
+	options: ExpiryOptions = {}
+): T[] => {
+	const now = (options.clock || getCurrentTimestamp)()
+	return items.filter((item) => !isExpired(item, { ...options, clock: () => now }))
+}
+
+/**
+ * Filter condition hiding items whose TTL has passed but which DynamoDB hasn't deleted yet.
+ * Comparisons are false for missing or non-numeric attributes, so those items are kept.
+ * @param options TTL attribute and current time
+ * @returns {Condition}
+ */
+export const notExpired = (options: ExpiryOptions = {}): Condition =>
+	not(lte(ttlAttribute(options), currentTime(options)))